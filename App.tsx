@@ -1,10 +1,26 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Trash2, ArrowLeft, Share, Wand2, Maximize2, Languages, X, PenTool, Copy, Check, Download, FileText, Image as ImageIcon, FileType, ChevronLeft, ChevronRight, Layers, FileImage, Smartphone, CheckCircle2, AlertTriangle } from 'lucide-react';
-import { AppView, DocumentData, ScannedPage, FilterType } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Camera, Trash2, ArrowLeft, Share, Wand2, Maximize2, Languages, X, PenTool, Copy, Check, Download, FileText, Image as ImageIcon, FileType, ChevronLeft, ChevronRight, Layers, FileImage, Smartphone, CheckCircle2, AlertTriangle, Crop, ScanLine, Settings, Receipt, Plus, Pencil, Table, Search, SlidersHorizontal, Folder as FolderIcon, FolderPlus, FolderInput, Tag, Combine, Scissors, FileUp, Undo2, Redo2, MousePointer2, Square, ArrowUpRight, Type, StickyNote, Eraser, EyeOff, Signature as SignatureIcon, Lock, Archive, ArchiveRestore } from 'lucide-react';
+import { AppView, EditorDraft, DocumentData, ScannedPage, FilterType, Point, StoredDocument, ExpenseData, ExpenseLineItem, Folder, Annotation, AnnotationType, RedactionBox, Signature } from './types';
 import { processImage, generateId, formatDate } from './services/imageUtils';
-import { analyzeDocument, translateText } from './services/geminiService';
-import { exportToPDF, exportToZIP, exportToTXT, downloadSinglePage } from './services/exportUtils';
+import { findDocumentCorners } from './services/edgeDetection';
+import { orderCorners } from './services/perspectiveUtils';
+import { fromDisplayPoint } from './services/annotationUtils';
+import { AISettings, normalizeTag } from './services/aiProvider';
+import { getAIProvider, loadAISettings, saveAISettings, AI_PROVIDER_OPTIONS } from './services/aiService';
+import { recognizeMissingPages, getDocumentText, summarizeDocumentText } from './services/analysisService';
+import { exportToPDF, exportToZIP, exportToTXT, exportToCSV, exportSinglePage, downloadFile, shareOrDownload, canShareFiles, isSupportedPdfPassword, loadPDFSettings, savePDFSettings, PDFSettings, PDFProtection, PaperSize, PageOrientation } from './services/exportUtils';
+import { importSignature } from './services/signatureUtils';
+import { captureTarget, insertPages, ScanMode } from './services/pageUtils';
+import { createBackup, readBackup, restoreBackup, BackupArchive, RestoreMode, RestorePlan } from './services/backupService';
+import { burnRedactions, findSensitiveText, SENSITIVE_KIND_LABELS } from './services/redactionService';
+import { importFiles, isImportable, takeSharedFiles, onLaunchFiles, IMPORT_ACCEPT } from './services/importService';
+import { createSearchIndex } from './services/searchIndex';
+import { listDocuments, loadDocument, saveDocument as persistToLibrary, updateDocuments, deleteDocuments, listFolders, saveFolder, deleteFolder, listSignatures, saveSignature, deleteSignature, migrateFromLocalStorage, requestPersistentStorage, isVaultEnabled, isVaultUnlocked, enableVault, unlockVault, lockVault, stashDraft, takeDraft, changeVaultPassphrase, disableVault } from './services/storageService';
 import { Button } from './components/Button';
+import { DocumentThumbnail } from './components/DocumentThumbnail';
+import { AnnotationShapes } from './components/AnnotationShapes';
+import { SignaturePad } from './components/SignaturePad';
+import { LockScreen } from './components/LockScreen';
 
 // --- CONSTANTS ---
 const LANGUAGES = [
@@ -12,33 +28,138 @@ const LANGUAGES = [
   "Chinese", "Japanese", "Korean", "Hindi", "Arabic", "Russian"
 ];
 
-const HIGHLIGHT_COLORS = [
+// Categories that get typed expense fields extracted automatically
+const EXPENSE_CATEGORY_PATTERN = /receipt|invoice|bill/i;
+
+const EMPTY_EXPENSE: ExpenseData = { vendor: '', date: '', currency: '', invoiceNumber: '', lineItems: [] };
+
+type SortOrder = 'NEWEST' | 'OLDEST' | 'TITLE';
+
+// One undoable editor step: the page list before (or after) an edit, and the page that was open
+interface EditSnapshot {
+  pages: ScannedPage[];
+  pageIndex: number;
+}
+
+type AnnotationTool = Exclude<AnnotationType, 'SIGNATURE'> | 'SELECT' | 'ERASER';
+
+// Page data URLs are shared between snapshots, so a long history costs little memory
+const MAX_HISTORY = 50;
+
+// dataTransfer type for dashboard cards dragged onto a folder
+const DOC_DRAG_TYPE = 'application/x-open-scan-docs';
+
+// How often the live viewfinder looks for the page outline
+const DETECTION_INTERVAL_MS = 300;
+
+const ANNOTATION_COLORS = [
   { name: 'Yellow', value: 'rgba(255, 235, 59, 0.5)', border: 'border-yellow-400', bg: 'bg-yellow-300' },
   { name: 'Green', value: 'rgba(76, 175, 80, 0.5)', border: 'border-green-400', bg: 'bg-green-300' },
   { name: 'Blue', value: 'rgba(33, 150, 243, 0.5)', border: 'border-blue-400', bg: 'bg-blue-300' },
   { name: 'Pink', value: 'rgba(233, 30, 99, 0.5)', border: 'border-pink-400', bg: 'bg-pink-300' },
+  { name: 'Red', value: '#dc2626', border: 'border-red-600', bg: 'bg-red-600' },
+  { name: 'Black', value: '#111827', border: 'border-gray-900', bg: 'bg-gray-900' },
+];
+
+// Fractions of the page width: line width for strokes and shapes, font size for text
+const ANNOTATION_SIZES = [
+  { label: 'S', line: 0.004, text: 0.02 },
+  { label: 'M', line: 0.01, text: 0.035 },
+  { label: 'L', line: 0.025, text: 0.05 },
+];
+
+// Width of a newly placed signature, as a fraction of the page width
+const SIGNATURE_WIDTH = 0.3;
+
+const ANNOTATION_TOOLS: { tool: AnnotationTool; label: string; icon: React.ReactNode }[] = [
+  { tool: 'SELECT', label: 'Select', icon: <MousePointer2 size={18} /> },
+  { tool: 'STROKE', label: 'Pen', icon: <PenTool size={18} /> },
+  { tool: 'RECT', label: 'Box', icon: <Square size={18} /> },
+  { tool: 'ARROW', label: 'Arrow', icon: <ArrowUpRight size={18} /> },
+  { tool: 'TEXT', label: 'Text', icon: <Type size={18} /> },
+  { tool: 'NOTE', label: 'Note', icon: <StickyNote size={18} /> },
+  { tool: 'ERASER', label: 'Erase', icon: <Eraser size={18} /> },
+];
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 1, label: 'After 1 minute' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+const RESTORE_MODE_OPTIONS: { mode: RestoreMode; label: string }[] = [
+  { mode: 'SKIP', label: 'Skip' },
+  { mode: 'MERGE', label: 'Keep both' },
+  { mode: 'OVERWRITE', label: 'Replace' },
 ];
 
+const MIN_PASSPHRASE_LENGTH = 8;
+const EMPTY_VAULT_FORM = { current: '', next: '', confirm: '' };
+
+// Title a new scan gets; AI analysis only replaces a title that is still this one
+const defaultTitle = (createdAt: number) => `Scan ${formatDate(createdAt)}`;
+
 // --- MAIN APP COMPONENT ---
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.DASHBOARD);
-  const [documents, setDocuments] = useState<DocumentData[]>(() => {
-    const saved = localStorage.getItem('open_scan_docs');
-    return saved ? JSON.parse(saved) : [];
-  });
+  // Library index only; full page images are loaded from IndexedDB when a document is opened
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [isLibraryReady, setIsLibraryReady] = useState(false);
   
   // Active editing state
   const [currentDoc, setCurrentDoc] = useState<DocumentData | null>(null);
   const [editorPageIndex, setEditorPageIndex] = useState(0); // For multi-page navigation in editor
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progressMessage, setProgressMessage] = useState<string>(''); // Shown in the processing overlays for long jobs
   
-  // Highlight Tool State
-  const [isHighlighting, setIsHighlighting] = useState(false);
-  const [highlightColor, setHighlightColor] = useState(HIGHLIGHT_COLORS[0].value);
-  const editorCanvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [cleanImageForHighlighting, setCleanImageForHighlighting] = useState<string>('');
+  // Annotation Tool State (annotations are vector objects in normalized page coordinates, see Annotation)
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('STROKE');
+  const [annotationColor, setAnnotationColor] = useState(ANNOTATION_COLORS[0].value);
+  const [annotationSize, setAnnotationSize] = useState(1); // Index into ANNOTATION_SIZES
+  const [cleanImageForAnnotating, setCleanImageForAnnotating] = useState<string>('');
+  const [annotationImageSize, setAnnotationImageSize] = useState({ width: 0, height: 0 });
+  const [annotationDraft, setAnnotationDraft] = useState<Annotation[]>([]);
+  const [annotationUndo, setAnnotationUndo] = useState<Annotation[][]>([]);
+  const [annotationRedo, setAnnotationRedo] = useState<Annotation[][]>([]);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [activeAnnotation, setActiveAnnotation] = useState<Annotation | null>(null); // Shape being drawn
+  const annotationDragRef = useRef<{ id: string; start: Point; before: Annotation[] } | null>(null);
+  const annotationSvgRef = useRef<SVGSVGElement>(null);
+  const annotationAdjustRef = useRef<Annotation[] | null>(null); // Draft before the current slider drag
+
+  // Signature library (placed signatures are SIGNATURE annotations)
+  const [signatures, setSignatures] = useState<Signature[]>([]);
+  const [showSignatureSheet, setShowSignatureSheet] = useState(false);
+  const [showSignaturePad, setShowSignaturePad] = useState(false);
+  const signatureInputRef = useRef<HTMLInputElement>(null);
+
+  // Redaction Tool State (boxes are normalized to the processed page)
+  const [isRedacting, setIsRedacting] = useState(false);
+  const [redactionBoxes, setRedactionBoxes] = useState<RedactionBox[]>([]);
+  const [redactionImageSize, setRedactionImageSize] = useState({ width: 0, height: 0 });
+  const [draftRedaction, setDraftRedaction] = useState<RedactionBox | null>(null);
+  const redactionStartRef = useRef<Point | null>(null);
+  const redactionSvgRef = useRef<SVGSVGElement>(null);
+
+  // Edit history for the document open in the editor
+  const [undoStack, setUndoStack] = useState<EditSnapshot[]>([]);
+  const [redoStack, setRedoStack] = useState<EditSnapshot[]>([]);
+
+  // Page management
+  const [showPageGrid, setShowPageGrid] = useState(false);
+  const [draggedPageIndex, setDraggedPageIndex] = useState<number | null>(null);
+  const [pageInsertIndex, setPageInsertIndex] = useState<number | null>(null); // Where camera captures go in currentDoc; null = new document
+
+  // Crop Tool State (corners are in originalDataUrl pixels)
+  const [isCropping, setIsCropping] = useState(false);
+  const [cropCorners, setCropCorners] = useState<Point[]>([]);
+  const [cropImageSize, setCropImageSize] = useState({ width: 0, height: 0 });
+  const [draggingCorner, setDraggingCorner] = useState<number | null>(null);
+  const cropSvgRef = useRef<SVGSVGElement>(null);
   
   // Translation State
   const [showTranslateDialog, setShowTranslateDialog] = useState(false);
@@ -46,15 +167,47 @@ const App: React.FC = () => {
   const [sourceLang, setSourceLang] = useState('Auto');
   const [hasCopied, setHasCopied] = useState(false);
 
+  // Expense Fields State (edited as a draft, persisted on save)
+  const [expenseDraft, setExpenseDraft] = useState<ExpenseData | null>(null);
+
   // Export State
   const [showExportSheet, setShowExportSheet] = useState(false);
+  const [searchablePdf, setSearchablePdf] = useState(() => localStorage.getItem('open_scan_searchable_pdf') === 'true');
+  const [pdfSettings, setPdfSettings] = useState<PDFSettings>(loadPDFSettings);
+  const [showPdfSettings, setShowPdfSettings] = useState(false);
+  // Held only while the export sheet is open; never saved with the other PDF settings
+  const [pdfProtection, setPdfProtection] = useState<PDFProtection | null>(null);
+  const [exportAction, setExportAction] = useState<'DOWNLOAD' | 'SHARE'>('DOWNLOAD');
+  const isShareSupported = useMemo(canShareFiles, []);
   
   // Camera & Batch State
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [cameraActive, setCameraActive] = useState(false);
-  const [scanMode, setScanMode] = useState<'SINGLE' | 'BATCH'>('SINGLE');
+  const [scanMode, setScanMode] = useState<ScanMode>('SINGLE');
   const [batchPages, setBatchPages] = useState<ScannedPage[]>([]);
+  const [detectedCorners, setDetectedCorners] = useState<Point[] | null>(null);
+
+  // File import
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  // Search & Filter State (the index is updated incrementally as documents are saved/deleted)
+  const searchIndexRef = useRef(createSearchIndex());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState(''); // '' = all
+  const [dateFrom, setDateFrom] = useState(''); // YYYY-MM-DD, inclusive
+  const [dateTo, setDateTo] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('NEWEST');
+  const [tagFilter, setTagFilter] = useState(''); // '' = all
+
+  // Folders
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null); // null = library root
+  const [showMoveSheet, setShowMoveSheet] = useState(false);
+  const [dropFolderId, setDropFolderId] = useState<string | null | undefined>(undefined); // Folder under a dragged card (null = root)
+  const [tagDraft, setTagDraft] = useState('');
 
   // Selection / Batch Delete State
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -64,18 +217,108 @@ const App: React.FC = () => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteTargetIds, setDeleteTargetIds] = useState<string[]>([]);
 
+  // AI Provider Settings (edited as a draft, applied on save)
+  const [aiSettingsDraft, setAISettingsDraft] = useState<AISettings>(loadAISettings);
+
+  // Encrypted library (see storageService); passphrases only live in the form while typed
+  const [isVaultOn, setIsVaultOn] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => Number(localStorage.getItem('open_scan_auto_lock') ?? 5));
+  const [vaultForm, setVaultForm] = useState(EMPTY_VAULT_FORM);
+
+  // Library backup (a restore with conflicts waits here for the user's choice)
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [pendingRestore, setPendingRestore] = useState<BackupArchive | null>(null);
+  const [restorePlan, setRestorePlan] = useState<RestorePlan>({ documents: {}, replaceExisting: false });
+
   // PWA Install Prompt
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
 
   // Persistence
+  const initLibrary = async () => {
+    try {
+      if (await isVaultEnabled()) {
+        setIsVaultOn(true);
+        if (!isVaultUnlocked()) {
+          setIsLocked(true);
+          return;
+        }
+      }
+      await migrateFromLocalStorage();
+      const [docs, storedFolders] = await Promise.all([listDocuments(), listFolders()]);
+      docs.forEach(doc => searchIndexRef.current.upsert(doc));
+      setDocuments(docs);
+      setFolders(storedFolders);
+      requestPersistentStorage();
+    } catch (e) {
+      console.error("Library load failed:", e);
+      alert("Could not open the document library. Your browser may be blocking storage.");
+    } finally {
+      setIsLibraryReady(true);
+    }
+  };
+
   useEffect(() => {
-    localStorage.setItem('open_scan_docs', JSON.stringify(documents));
-  }, [documents]);
+    initLibrary();
+  }, []);
+
+  // Files shared to the app (share target) or opened with it (file handler) go straight to the editor
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).has('shared')) {
+      window.history.replaceState(null, '', window.location.pathname);
+      takeSharedFiles().then(files => files.length > 0 && handleImport(files));
+    }
+    onLaunchFiles(handleImport);
+  }, []);
 
   useEffect(() => {
     localStorage.setItem('open_scan_target_lang', targetLang);
   }, [targetLang]);
 
+  useEffect(() => {
+    localStorage.setItem('open_scan_searchable_pdf', String(searchablePdf));
+  }, [searchablePdf]);
+
+  useEffect(() => {
+    savePDFSettings(pdfSettings);
+  }, [pdfSettings]);
+
+  useEffect(() => {
+    if (!showExportSheet) setPdfProtection(null);
+  }, [showExportSheet]);
+
+  useEffect(() => {
+    localStorage.setItem('open_scan_auto_lock', String(autoLockMinutes));
+  }, [autoLockMinutes]);
+
+  useEffect(() => {
+    if (view !== AppView.SETTINGS) setVaultForm(EMPTY_VAULT_FORM);
+  }, [view]);
+
+  // The timer below outlives renders; locking must stash the editor state of the latest one
+  const lockLibraryRef = useRef(() => {});
+  lockLibraryRef.current = () => { lockLibrary(); };
+
+  // Auto-lock after a stretch without input. Running jobs hold it off, and since timers are
+  // throttled in background tabs, the check also runs when the app comes back into view.
+  useEffect(() => {
+    if (!isVaultOn || isLocked || !autoLockMinutes || isProcessing) return;
+    let lastActivity = Date.now();
+    const touch = () => { lastActivity = Date.now(); };
+    const check = () => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60_000) lockLibraryRef.current();
+    };
+    const activityEvents = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    activityEvents.forEach(type => window.addEventListener(type, touch, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = window.setInterval(check, 15_000);
+    return () => {
+      activityEvents.forEach(type => window.removeEventListener(type, touch));
+      document.removeEventListener('visibilitychange', check);
+      window.clearInterval(timer);
+    };
+  }, [isVaultOn, isLocked, autoLockMinutes, isProcessing]);
+
   useEffect(() => {
     // Capture the PWA install prompt event
     window.addEventListener('beforeinstallprompt', (e) => {
@@ -96,6 +339,189 @@ const App: React.FC = () => {
     }
   };
 
+  // --- SEARCH & FILTER LOGIC ---
+
+  const categories = useMemo(
+    () => Array.from(new Set(documents.map(d => d.category).filter(Boolean))).sort(),
+    [documents]
+  );
+
+  const hasActiveFilters = !!(categoryFilter || dateFrom || dateTo);
+  // Searching and filtering look through every folder; otherwise the dashboard shows the current folder
+  const isSearchingLibrary = !!(searchQuery.trim() || hasActiveFilters || tagFilter);
+
+  const visibleDocuments = useMemo(() => {
+    const matches = searchIndexRef.current.search(searchQuery);
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : -Infinity;
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : Infinity;
+
+    const result = documents.filter(d =>
+      (!matches || matches.has(d.id)) &&
+      (!categoryFilter || d.category === categoryFilter) &&
+      (!tagFilter || !!d.tags?.includes(tagFilter)) &&
+      (isSearchingLibrary || (d.folderId ?? null) === currentFolderId) &&
+      d.createdAt >= from && d.createdAt <= to
+    );
+    return result.sort((a, b) => {
+      if (sortOrder === 'OLDEST') return a.createdAt - b.createdAt;
+      if (sortOrder === 'TITLE') return a.title.localeCompare(b.title);
+      return b.createdAt - a.createdAt;
+    });
+  }, [documents, searchQuery, categoryFilter, tagFilter, dateFrom, dateTo, sortOrder, isSearchingLibrary, currentFolderId]);
+
+  const clearFilters = () => {
+    setCategoryFilter('');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  // --- FOLDER & TAG LOGIC ---
+
+  const allTags = useMemo(
+    () => Array.from(new Set(documents.flatMap(d => d.tags || []))).sort(),
+    [documents]
+  );
+
+  const subfolders = folders.filter(f => f.parentId === currentFolderId);
+
+  // Root-to-current chain for the breadcrumb
+  const folderPath = useMemo(() => {
+    const path: Folder[] = [];
+    let id = currentFolderId;
+    while (id) {
+      const folder = folders.find(f => f.id === id);
+      if (!folder || path.includes(folder)) break;
+      path.unshift(folder);
+      id = folder.parentId;
+    }
+    return path;
+  }, [folders, currentFolderId]);
+
+  // Every folder in tree order with its nesting depth, for folder pickers
+  const folderTree = useMemo(() => {
+    const result: { folder: Folder; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+      folders.filter(f => f.parentId === parentId).forEach(folder => {
+        result.push({ folder, depth });
+        visit(folder.id, depth + 1);
+      });
+    };
+    visit(null, 0);
+    return result;
+  }, [folders]);
+
+  const createFolder = async () => {
+    const name = prompt("Folder name")?.trim();
+    if (!name) return;
+    const folder: Folder = { id: generateId(), name, parentId: currentFolderId, createdAt: Date.now() };
+    try {
+      await saveFolder(folder);
+      setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e) {
+      console.error("Folder creation failed:", e);
+      alert("Could not create the folder.");
+    }
+  };
+
+  const renameFolder = async (folder: Folder, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const name = prompt("Rename folder", folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    const renamed = { ...folder, name };
+    try {
+      await saveFolder(renamed);
+      setFolders(prev => prev.map(f => f.id === folder.id ? renamed : f).sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e) {
+      console.error("Folder rename failed:", e);
+      alert("Could not rename the folder.");
+    }
+  };
+
+  const removeFolder = async (folder: Folder, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!confirm(`Delete the folder "${folder.name}"? Its documents and subfolders are kept and move up one level.`)) return;
+    try {
+      await deleteFolder(folder.id);
+    } catch (e) {
+      console.error("Folder delete failed:", e);
+      alert("Could not delete the folder.");
+      return;
+    }
+    setFolders(prev => prev.filter(f => f.id !== folder.id).map(f => f.parentId === folder.id ? { ...f, parentId: folder.parentId } : f));
+    setDocuments(prev => prev.map(d => d.folderId === folder.id ? { ...d, folderId: folder.parentId } : d));
+  };
+
+  const moveDocuments = async (ids: string[], folderId: string | null) => {
+    if (ids.length === 0) return;
+    try {
+      const updated = await updateDocuments(ids, { folderId });
+      const byId = new Map(updated.map(d => [d.id, d]));
+      setDocuments(prev => prev.map(d => byId.get(d.id) || d));
+    } catch (e) {
+      console.error("Move failed:", e);
+      alert("Could not move the documents. Please try again.");
+      return;
+    }
+    setShowMoveSheet(false);
+    setIsSelectionMode(false);
+    setSelectedIds(new Set());
+  };
+
+  // Dragging a selected card carries the whole selection along
+  const startDocumentDrag = (id: string, e: React.DragEvent) => {
+    const ids = selectedIds.has(id) ? Array.from(selectedIds) : [id];
+    e.dataTransfer.setData(DOC_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const folderDropProps = (folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DOC_DRAG_TYPE)) return;
+      e.preventDefault();
+      setDropFolderId(folderId);
+    },
+    onDragLeave: () => setDropFolderId(undefined),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropFolderId(undefined);
+      const ids: string[] = JSON.parse(e.dataTransfer.getData(DOC_DRAG_TYPE) || '[]');
+      moveDocuments(ids, folderId);
+    }
+  });
+
+  const updateCurrentDocument = (changes: Partial<DocumentData>) => {
+    if (!currentDoc) return;
+    const updatedDoc = { ...currentDoc, ...changes };
+    setCurrentDoc(updatedDoc);
+    persistDocument(updatedDoc);
+  };
+
+  const renameDocument = () => {
+    if (!currentDoc) return;
+    const title = prompt("Rename document", currentDoc.title)?.trim();
+    if (title && title !== currentDoc.title) updateCurrentDocument({ title, aiTitle: false, titleNeedsReview: false });
+  };
+
+  // Adding a tag (typed or an accepted suggestion) also takes it off the suggestion list
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (!currentDoc || !tag) return;
+    updateCurrentDocument({
+      tags: Array.from(new Set([...(currentDoc.tags || []), tag])),
+      suggestedTags: currentDoc.suggestedTags?.filter(t => t !== tag)
+    });
+  };
+
+  const removeTag = (tag: string) => {
+    if (!currentDoc) return;
+    updateCurrentDocument({ tags: currentDoc.tags?.filter(t => t !== tag) });
+  };
+
+  const dismissSuggestedTag = (tag: string) => {
+    if (!currentDoc) return;
+    updateCurrentDocument({ suggestedTags: currentDoc.suggestedTags?.filter(t => t !== tag) });
+  };
+
   // --- SELECTION LOGIC ---
   const toggleSelectionMode = () => {
     if (isSelectionMode) {
@@ -135,8 +561,16 @@ const App: React.FC = () => {
     setShowDeleteConfirm(true);
   };
 
-  const executeDelete = () => {
-    // 1. Update State
+  const executeDelete = async () => {
+    // 1. Remove from storage, then update State
+    try {
+      await deleteDocuments(deleteTargetIds);
+    } catch (e) {
+      console.error("Delete failed:", e);
+      alert("Could not delete. Please try again.");
+      return;
+    }
+    deleteTargetIds.forEach(id => searchIndexRef.current.remove(id));
     setDocuments(prev => prev.filter(d => !deleteTargetIds.includes(d.id)));
     
     // 2. Handle View Navigation if needed
@@ -153,6 +587,73 @@ const App: React.FC = () => {
     setDeleteTargetIds([]);
   };
 
+  // --- MERGE & SPLIT LOGIC ---
+
+  // Summaries and translations describe the old page set, so they're cleared; per-page OCR is kept
+  const clearDerivedMetadata = (doc: DocumentData): DocumentData => ({ ...doc, aiSummary: '', translation: undefined, suggestedTags: [] });
+
+  // After a redaction, extracted fields and an AI-written title may still quote what was removed
+  const clearRedactedMetadata = (doc: DocumentData): DocumentData => ({
+    ...clearDerivedMetadata(doc),
+    expense: undefined,
+    titleNeedsReview: doc.aiTitle || doc.titleNeedsReview
+  });
+
+  // Appends the other selected documents to the oldest one, in scan order
+  const mergeSelectedDocuments = async () => {
+    if (selectedIds.size < 2) return;
+    if (!confirm(`Merge ${selectedIds.size} documents into one? The originals are replaced.`)) return;
+    setIsProcessing(true);
+    try {
+      const loaded = await Promise.all(Array.from(selectedIds).map(loadDocument));
+      const [first, ...rest] = loaded.filter((d): d is DocumentData => !!d).sort((a, b) => a.createdAt - b.createdAt);
+      const merged: DocumentData = {
+        ...clearDerivedMetadata(first),
+        tags: Array.from(new Set([first, ...rest].flatMap(d => d.tags || []))),
+        // Moved pages get new ids so deleting their old documents can't take the images with them
+        pages: [...first.pages, ...rest.flatMap(d => d.pages.map(page => ({ ...page, id: generateId() })))]
+      };
+      if (!(await persistDocument(merged))) return;
+
+      const restIds = rest.map(d => d.id);
+      await deleteDocuments(restIds);
+      restIds.forEach(id => searchIndexRef.current.remove(id));
+      setDocuments(prev => prev.filter(d => !restIds.includes(d.id)));
+      setIsSelectionMode(false);
+      setSelectedIds(new Set());
+      setCurrentDoc(merged);
+      setExpenseDraft(null);
+      setView(AppView.DETAILS);
+    } catch (e) {
+      console.error("Merge failed:", e);
+      alert("Could not merge the documents. Please try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Pages after `index` become a new document; both halves are saved right away
+  const splitAfterPage = async (index: number) => {
+    if (!currentDoc || index >= currentDoc.pages.length - 1) return;
+    const first = clearDerivedMetadata({ ...currentDoc, pages: currentDoc.pages.slice(0, index + 1) });
+    const second: DocumentData = {
+      ...clearDerivedMetadata(currentDoc),
+      id: generateId(),
+      title: `${currentDoc.title} (2)`,
+      expense: undefined, // Extracted from the first page, which stays behind
+      pages: currentDoc.pages.slice(index + 1).map(page => ({ ...page, id: generateId() }))
+    };
+
+    setIsProcessing(true);
+    const saved = await persistDocument(second) && await persistDocument(first);
+    setIsProcessing(false);
+    if (!saved) return;
+    setCurrentDoc(first);
+    setEditorPageIndex(Math.min(editorPageIndex, index));
+    // Undoing past the split would resurrect pages that now belong to the new document
+    resetHistory();
+  };
+
   // --- CAMERA LOGIC ---
 
   const startCamera = async () => {
@@ -181,7 +682,8 @@ const App: React.FC = () => {
   useEffect(() => {
     if (view === AppView.CAMERA) {
       startCamera();
-      if (batchPages.length === 0) {
+      // Adding pages to an open document keeps the batch mode addPages chose
+      if (batchPages.length === 0 && pageInsertIndex === null) {
         setScanMode('SINGLE');
       }
     } else {
@@ -190,6 +692,20 @@ const App: React.FC = () => {
     return () => stopCamera();
   }, [view]);
 
+  // Live page outline while the viewfinder is open
+  useEffect(() => {
+    if (view !== AppView.CAMERA || !cameraActive) {
+      setDetectedCorners(null);
+      return;
+    }
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+      setDetectedCorners(findDocumentCorners(video, video.videoWidth, video.videoHeight));
+    }, DETECTION_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [view, cameraActive]);
+
   const captureImage = async () => {
     if (!videoRef.current || !canvasRef.current) return;
     
@@ -202,16 +718,21 @@ const App: React.FC = () => {
     if (ctx) {
       ctx.drawImage(video, 0, 0);
       const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+
+      // Keep the raw frame; the detected outline is applied (non-destructively) when processing
+      const corners = findDocumentCorners(canvas, canvas.width, canvas.height) ?? undefined;
+      const processed = corners ? await processImage(dataUrl, FilterType.ORIGINAL, 0, undefined, corners) : dataUrl;
       
       const newPage: ScannedPage = {
         id: generateId(),
         originalDataUrl: dataUrl,
-        processedDataUrl: dataUrl,
+        processedDataUrl: processed,
         filter: FilterType.ORIGINAL,
-        rotation: 0
+        rotation: 0,
+        corners
       };
 
-      if (scanMode === 'BATCH') {
+      if (captureTarget(scanMode, pageInsertIndex) === 'BATCH') {
         setBatchPages(prev => [...prev, newPage]);
       } else {
         createNewDoc([newPage]);
@@ -221,38 +742,131 @@ const App: React.FC = () => {
 
   const finishBatch = () => {
     if (batchPages.length === 0) return;
-    createNewDoc(batchPages);
+    if (pageInsertIndex !== null && currentDoc) {
+      commitPages(insertPages(currentDoc.pages, pageInsertIndex, batchPages), pageInsertIndex);
+      setPageInsertIndex(null);
+      setView(AppView.EDITOR);
+    } else {
+      createNewDoc(batchPages);
+    }
     setBatchPages([]);
   };
 
-  const createNewDoc = (pages: ScannedPage[]) => {
+  const leaveCamera = () => {
+    if (pageInsertIndex !== null) {
+      setPageInsertIndex(null);
+      setView(AppView.EDITOR);
+    } else {
+      setView(AppView.DASHBOARD);
+    }
+  };
+
+  const createNewDoc = (pages: ScannedPage[], title?: string) => {
+    const createdAt = Date.now();
     const newDoc: DocumentData = {
       id: generateId(),
-      title: `Scan ${formatDate(Date.now())}`,
-      createdAt: Date.now(),
+      title: title ?? defaultTitle(createdAt),
+      createdAt,
       category: 'Uncategorized',
+      folderId: currentFolderId,
+      tags: [],
       pages: pages,
       aiSummary: ''
     };
     setCurrentDoc(newDoc);
+    setPageInsertIndex(null);
     setEditorPageIndex(0);
+    setShowPageGrid(false);
+    resetHistory();
     setView(AppView.EDITOR);
   };
 
+  // --- IMPORT LOGIC ---
+
+  // Imported files become one new document in the editor, just like a camera batch
+  const handleImport = async (fileList: FileList | File[] | null) => {
+    const files = Array.from(fileList || []);
+    const supported = files.filter(isImportable);
+    if (supported.length < files.length) {
+      alert(`${files.length - supported.length} file(s) skipped. Supported: JPEG, PNG, WebP, HEIC and PDF.`);
+    }
+    if (supported.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      const pages = await importFiles(supported, (done, total) => setProgressMessage(`Importing file ${done} of ${total}...`));
+      if (pages.length === 0) throw new Error("No pages found");
+      createNewDoc(pages, supported.length === 1 ? supported[0].name.replace(/\.[^.]+$/, '') : undefined);
+    } catch (e) {
+      console.error("Import failed:", e);
+      alert("Could not import these files. They may be damaged or password-protected.");
+    } finally {
+      setIsProcessing(false);
+      setProgressMessage('');
+    }
+  };
+
   // --- EDITOR LOGIC ---
 
+  // Every editor change to the page list goes through here so it can be undone
+  const commitPages = (pages: ScannedPage[], pageIndex = editorPageIndex) => {
+    if (!currentDoc) return;
+    setUndoStack(prev => [...prev.slice(1 - MAX_HISTORY), { pages: currentDoc.pages, pageIndex: editorPageIndex }]);
+    setRedoStack([]);
+    setCurrentDoc({ ...currentDoc, pages });
+    setEditorPageIndex(Math.max(0, Math.min(pageIndex, pages.length - 1)));
+  };
+
+  const resetHistory = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  // Restores a snapshot and jumps to the page it touched, whichever page is open now
+  const stepHistory = (from: EditSnapshot[], setFrom: (s: EditSnapshot[]) => void, setTo: React.Dispatch<React.SetStateAction<EditSnapshot[]>>) => {
+    if (!currentDoc || from.length === 0) return;
+    const snapshot = from[from.length - 1];
+    setFrom(from.slice(0, -1));
+    setTo(prev => [...prev, { pages: currentDoc.pages, pageIndex: editorPageIndex }]);
+    setCurrentDoc({ ...currentDoc, pages: snapshot.pages });
+    setEditorPageIndex(Math.min(snapshot.pageIndex, snapshot.pages.length - 1));
+  };
+
+  const undo = () => isAnnotating ? stepAnnotations(annotationUndo, setAnnotationUndo, setAnnotationRedo) : stepHistory(undoStack, setUndoStack, setRedoStack);
+  const redo = () => isAnnotating ? stepAnnotations(annotationRedo, setAnnotationRedo, setAnnotationUndo) : stepHistory(redoStack, setRedoStack, setUndoStack);
+  const canUndo = isAnnotating ? annotationUndo.length > 0 : undoStack.length > 0;
+  const canRedo = isAnnotating ? annotationRedo.length > 0 : redoStack.length > 0;
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes (text fields keep their own undo)
+  useEffect(() => {
+    if (view !== AppView.EDITOR || isCropping || isRedacting || isProcessing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const applyFilter = async (filter: FilterType) => {
     if (!currentDoc) return;
     setIsProcessing(true);
     
     const currentPage = currentDoc.pages[editorPageIndex];
-    const processed = await processImage(currentPage.originalDataUrl, filter, currentPage.rotation, currentPage.highlightsLayer);
+    const processed = await processImage(currentPage.originalDataUrl, filter, currentPage.rotation, currentPage.highlightsLayer, currentPage.corners, currentPage.annotations);
     
     const updatedPage = { ...currentPage, processedDataUrl: processed, filter };
     const updatedPages = [...currentDoc.pages];
     updatedPages[editorPageIndex] = updatedPage;
 
-    setCurrentDoc({ ...currentDoc, pages: updatedPages });
+    commitPages(updatedPages);
     setIsProcessing(false);
   };
 
@@ -262,31 +876,90 @@ const App: React.FC = () => {
     
     const currentPage = currentDoc.pages[editorPageIndex];
     const newRotation = (currentPage.rotation + 90) % 360;
-    const processed = await processImage(currentPage.originalDataUrl, currentPage.filter, newRotation, currentPage.highlightsLayer);
+    const processed = await processImage(currentPage.originalDataUrl, currentPage.filter, newRotation, currentPage.highlightsLayer, currentPage.corners, currentPage.annotations);
     
-    const updatedPage = { ...currentPage, processedDataUrl: processed, rotation: newRotation };
+    const updatedPage = { ...currentPage, processedDataUrl: processed, rotation: newRotation, ocr: undefined };
     const updatedPages = [...currentDoc.pages];
     updatedPages[editorPageIndex] = updatedPage;
 
-    setCurrentDoc({ ...currentDoc, pages: updatedPages });
+    commitPages(updatedPages);
     setIsProcessing(false);
   };
 
+  // --- PAGE MANAGEMENT ---
+
+  const movePage = (from: number, to: number) => {
+    if (!currentDoc || from === to || to < 0 || to >= currentDoc.pages.length) return;
+    const pages = [...currentDoc.pages];
+    const [page] = pages.splice(from, 1);
+    pages.splice(to, 0, page);
+    commitPages(pages, to);
+  };
+
+  // A document always keeps at least one page
+  const deletePage = (index: number) => {
+    if (!currentDoc || currentDoc.pages.length <= 1) return;
+    commitPages(currentDoc.pages.filter((_, i) => i !== index), editorPageIndex > index ? editorPageIndex - 1 : editorPageIndex);
+  };
+
+  const duplicatePage = (index: number) => {
+    if (!currentDoc) return;
+    const pages = [...currentDoc.pages];
+    pages.splice(index + 1, 0, { ...pages[index], id: generateId() });
+    commitPages(pages, index + 1);
+  };
+
+  // Reopens the camera in batch mode; finishBatch puts the captures at `index` in the current document
+  const addPages = (index: number) => {
+    setPageInsertIndex(index);
+    setScanMode('BATCH');
+    setBatchPages([]);
+    setView(AppView.CAMERA);
+  };
+
   const triggerAIAnalysis = async () => {
     if (!currentDoc || currentDoc.pages.length === 0) return;
     setIsProcessing(true);
+    const image = currentDoc.pages[0].processedDataUrl;
     try {
-      const result = await analyzeDocument(currentDoc.pages[0].processedDataUrl);
-      setCurrentDoc({
-        ...currentDoc,
-        title: result.title,
-        category: result.category,
-        aiSummary: result.summary
-      });
+      // 1. On-device OCR of every page (pages recognized earlier are reused), so text is available offline
+      const pages = await recognizeMissingPages(currentDoc.pages, (done, total) => setProgressMessage(`Reading page ${done} of ${total}...`));
+      const fullText = getDocumentText(pages);
+      let updated: DocumentData = { ...currentDoc, pages, aiSummary: fullText || 'No text detected.' };
+      setCurrentDoc(updated);
+
+      // 2. The AI provider only adds a title, category and summary when it's configured and reachable
+      const provider = getAIProvider();
+      if (provider.isConfigured() && navigator.onLine) {
+        try {
+          // Summarize from all pages' text; fall back to looking at the first page when nothing was recognized
+          const result = fullText
+            ? await summarizeDocumentText(provider, fullText, (done, total) => setProgressMessage(`Summarizing (${done}/${total})...`))
+            : await provider.analyzeDocument(image);
+          // Manual organization wins: the title and category are only filled in while they're still the
+          // defaults (or the title is flagged after a redaction), and tags are offered as suggestions
+          const replaceTitle = updated.title === defaultTitle(updated.createdAt) || !!updated.titleNeedsReview;
+          const title = replaceTitle ? { title: result.title, aiTitle: true, titleNeedsReview: false } : {};
+          const category = !updated.category || updated.category === 'Uncategorized' ? result.category : updated.category;
+          const suggestedTags = result.tags.filter(tag => !(updated.tags || []).includes(tag));
+          updated = { ...updated, ...title, category, aiSummary: result.summary, suggestedTags };
+          if (EXPENSE_CATEGORY_PATTERN.test(category)) {
+            setProgressMessage('Extracting fields...');
+            updated = { ...updated, expense: await provider.extractExpense(image) };
+          }
+        } catch (e) {
+          console.warn(`${provider.label} analysis unavailable, keeping on-device text:`, e);
+        }
+      }
+      setCurrentDoc(updated);
+      // Documents opened from the library are saved right away; the editor saves on "Save"
+      if (view === AppView.DETAILS) await persistDocument(updated);
     } catch (e) {
-      alert("AI Analysis failed. Check API configuration.");
+      console.error("Text recognition failed:", e);
+      alert("Text recognition failed. Please try again.");
     } finally {
       setIsProcessing(false);
+      setProgressMessage('');
     }
   };
 
@@ -294,7 +967,7 @@ const App: React.FC = () => {
     if (!currentDoc || !currentDoc.aiSummary) return;
     setIsProcessing(true);
     try {
-      const translatedText = await translateText(currentDoc.aiSummary, targetLang, sourceLang);
+      const translatedText = await getAIProvider().translateText(currentDoc.aiSummary, targetLang, sourceLang);
       const updatedDoc: DocumentData = {
         ...currentDoc,
         translation: {
@@ -304,7 +977,7 @@ const App: React.FC = () => {
         }
       };
       setCurrentDoc(updatedDoc);
-      setDocuments(prev => prev.map(d => d.id === updatedDoc.id ? updatedDoc : d));
+      await persistDocument(updatedDoc);
       setShowTranslateDialog(false);
     } catch (e) {
       alert("Translation failed");
@@ -313,6 +986,40 @@ const App: React.FC = () => {
     }
   };
 
+  const triggerExpenseExtraction = async () => {
+    if (!currentDoc || currentDoc.pages.length === 0) return;
+    const provider = getAIProvider();
+    if (!provider.isConfigured()) {
+      alert("Field extraction needs an AI provider. Configure one in Settings.");
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      const expense = await provider.extractExpense(currentDoc.pages[0].processedDataUrl);
+      const updatedDoc = { ...currentDoc, expense };
+      setCurrentDoc(updatedDoc);
+      await persistDocument(updatedDoc);
+    } catch (e) {
+      console.error("Expense extraction failed:", e);
+      alert("Could not extract fields. Please try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const saveExpenseDraft = async () => {
+    if (!currentDoc || !expenseDraft) return;
+    const updatedDoc = { ...currentDoc, expense: expenseDraft };
+    setCurrentDoc(updatedDoc);
+    if (await persistDocument(updatedDoc)) setExpenseDraft(null);
+  };
+
+  const updateExpenseItem = (index: number, changes: Partial<ExpenseLineItem>) => {
+    if (!expenseDraft) return;
+    const lineItems = expenseDraft.lineItems.map((item, i) => i === index ? { ...item, ...changes } : item);
+    setExpenseDraft({ ...expenseDraft, lineItems });
+  };
+
   const copyTranslation = () => {
     if (currentDoc?.translation) {
       navigator.clipboard.writeText(currentDoc.translation.text);
@@ -321,159 +1028,677 @@ const App: React.FC = () => {
     }
   };
 
-  const saveDocument = () => {
+  // Writes one document to the library and mirrors it into the dashboard index
+  const persistDocument = async (doc: DocumentData): Promise<boolean> => {
+    try {
+      const stored = await persistToLibrary(doc);
+      searchIndexRef.current.upsert(stored);
+      setDocuments(prev => {
+        const existing = prev.findIndex(d => d.id === stored.id);
+        if (existing >= 0) {
+          const copy = [...prev];
+          copy[existing] = stored;
+          return copy;
+        }
+        return [stored, ...prev];
+      });
+      return true;
+    } catch (e) {
+      console.error("Save failed:", e);
+      alert("Could not save the document. Device storage may be full.");
+      return false;
+    }
+  };
+
+  const openDocument = async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const doc = await loadDocument(id);
+      if (!doc) throw new Error(`Document ${id} not found`);
+      setCurrentDoc(doc);
+      setExpenseDraft(null);
+      setView(AppView.DETAILS);
+    } catch (e) {
+      console.error("Open failed:", e);
+      alert("Could not open this document.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const saveDocument = async () => {
     if (!currentDoc) return;
-    
-    setDocuments(prev => {
-      const existing = prev.findIndex(d => d.id === currentDoc.id);
-      if (existing >= 0) {
-        const copy = [...prev];
-        copy[existing] = currentDoc;
-        return copy;
-      }
-      return [currentDoc, ...prev];
-    });
+    setIsProcessing(true);
+    const saved = await persistDocument(currentDoc);
+    setIsProcessing(false);
+    if (!saved) return;
     
     setView(AppView.DASHBOARD);
     setCurrentDoc(null);
     setBatchPages([]); 
   };
 
+  // --- VAULT LOGIC ---
+
+  const handleUnlock = async (passphrase: string) => {
+    if (!(await unlockVault(passphrase))) return false;
+    setIsLocked(false);
+    await initLibrary();
+    try {
+      const draft = await takeDraft();
+      if (draft) {
+        setCurrentDoc(draft.doc);
+        setEditorPageIndex(draft.pageIndex);
+        setBatchPages(draft.batchPages);
+        setPageInsertIndex(draft.pageInsertIndex);
+        if (draft.batchPages.length > 0) setScanMode('BATCH');
+        setView(draft.view);
+      }
+    } catch (e) {
+      console.error("Draft restore failed:", e);
+    }
+    return true;
+  };
+
+  // Editor changes and captured batch pages only reach storage on Save
+  const unsavedDraft = (): EditorDraft | null => {
+    if (view === AppView.EDITOR && currentDoc) {
+      return { view, doc: currentDoc, pageIndex: editorPageIndex, batchPages: [], pageInsertIndex: null };
+    }
+    if (view === AppView.CAMERA && (batchPages.length > 0 || pageInsertIndex !== null)) {
+      return { view, doc: pageInsertIndex !== null ? currentDoc : null, pageIndex: editorPageIndex, batchPages, pageInsertIndex };
+    }
+    return null;
+  };
+
+  // Reloading is the only sure way to drop every decrypted page, thumbnail and search entry held in
+  // memory, so unsaved work is stashed (encrypted) first and reopened after unlocking
+  const lockLibrary = async () => {
+    const draft = unsavedDraft();
+    try {
+      if (draft) await stashDraft(draft);
+    } catch (e) {
+      // Locking still wins: an idle device must not stay open because storage is full
+      console.error("Draft stash failed:", e);
+    }
+    lockVault();
+    window.location.reload();
+  };
+
+  const validNewPassphrase = () => {
+    if (vaultForm.next.length < MIN_PASSPHRASE_LENGTH) {
+      alert(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return false;
+    }
+    if (vaultForm.next !== vaultForm.confirm) {
+      alert("The passphrases don't match.");
+      return false;
+    }
+    return true;
+  };
+
+  const turnOnVault = async () => {
+    if (!validNewPassphrase()) return;
+    if (!confirm("Encrypt the library? If you forget the passphrase, your documents cannot be recovered.")) return;
+    setIsProcessing(true);
+    try {
+      await enableVault(vaultForm.next, (done, total) => setProgressMessage(`Encrypting ${done}/${total}`));
+      setIsVaultOn(true);
+      setVaultForm(EMPTY_VAULT_FORM);
+    } catch (e) {
+      console.error("Encryption failed:", e);
+      alert("Could not encrypt the library. Anything not yet encrypted will be finished the next time you unlock.");
+    } finally {
+      setIsProcessing(false);
+      setProgressMessage('');
+    }
+  };
+
+  const changePassphrase = async () => {
+    if (!validNewPassphrase()) return;
+    setIsProcessing(true);
+    try {
+      if (await changeVaultPassphrase(vaultForm.current, vaultForm.next)) {
+        setVaultForm(EMPTY_VAULT_FORM);
+        alert("Passphrase changed.");
+      } else {
+        alert("The current passphrase is wrong.");
+      }
+    } catch (e) {
+      console.error("Passphrase change failed:", e);
+      alert("Could not change the passphrase.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const turnOffVault = async () => {
+    if (!confirm("Decrypt the library? Your documents will be stored without encryption on this device.")) return;
+    setIsProcessing(true);
+    try {
+      if (await disableVault(vaultForm.current, (done, total) => setProgressMessage(`Decrypting ${done}/${total}`))) {
+        setIsVaultOn(false);
+        setVaultForm(EMPTY_VAULT_FORM);
+      } else {
+        alert("The current passphrase is wrong.");
+      }
+    } catch (e) {
+      console.error("Decryption failed:", e);
+      alert("Could not decrypt the library. It stays encrypted.");
+    } finally {
+      setIsProcessing(false);
+      setProgressMessage('');
+    }
+  };
+
+  // --- BACKUP LOGIC ---
+
+  const handleBackup = async () => {
+    if (isVaultOn && !confirm("The backup file is not encrypted: anyone with the file can read your documents. Continue?")) return;
+    setIsProcessing(true);
+    try {
+      const file = await createBackup((done, total) => setProgressMessage(`Backing up ${done}/${total}`));
+      downloadFile(file);
+    } catch (e) {
+      console.error("Backup failed:", e);
+      alert("Could not create the backup. Please try again.");
+    } finally {
+      setIsProcessing(false);
+      setProgressMessage('');
+    }
+  };
+
+  const runRestore = async (archive: BackupArchive, plan: RestorePlan) => {
+    setPendingRestore(null);
+    setIsProcessing(true);
+    try {
+      const restored = await restoreBackup(archive, plan, (done, total) => setProgressMessage(`Restoring ${done}/${total}`));
+      await initLibrary();
+      alert(`Restored ${restored} document${restored === 1 ? '' : 's'}.`);
+    } catch (e) {
+      console.error("Restore failed:", e);
+      alert("The restore stopped partway. Documents restored so far have been kept.");
+    } finally {
+      setIsProcessing(false);
+      setProgressMessage('');
+    }
+  };
+
+  const handleRestoreFile = async (file: File) => {
+    setIsProcessing(true);
+    let archive: BackupArchive;
+    try {
+      archive = await readBackup(file);
+    } catch (e) {
+      console.error("Backup could not be read:", e);
+      alert(e instanceof Error ? e.message : "Could not read the backup.");
+      return;
+    } finally {
+      setIsProcessing(false);
+    }
+
+    const count = archive.manifest.documents.length;
+    if (archive.conflicts.length > 0) {
+      // Conflicts are skipped unless the user picks otherwise, one document at a time or all at once
+      setRestorePlan({ documents: Object.fromEntries(archive.conflicts.map(c => [c.id, 'SKIP'])), replaceExisting: false });
+      setPendingRestore(archive);
+    } else if (confirm(`Restore ${count} document${count === 1 ? '' : 's'} from this backup?`)) {
+      runRestore(archive, { documents: {}, replaceExisting: false });
+    }
+  };
+
+  const setRestoreModes = (ids: string[], mode: RestoreMode) =>
+    setRestorePlan(prev => ({ ...prev, documents: { ...prev.documents, ...Object.fromEntries(ids.map(id => [id, mode])) } }));
+
   // --- EXPORT LOGIC ---
-  const handleExport = async (type: 'pdf' | 'img' | 'txt', imgFormat: 'jpeg' | 'png' | 'webp' = 'jpeg') => {
+  const handleExport = async (type: 'pdf' | 'img' | 'txt' | 'csv', imgFormat: 'jpeg' | 'png' | 'webp' = 'jpeg', action = exportAction) => {
     if (!currentDoc) return;
+    if (type === 'pdf' && pdfProtection && !pdfProtection.password) {
+      alert("Enter a password to protect the PDF.");
+      return;
+    }
+    if (type === 'pdf' && pdfProtection && !isSupportedPdfPassword(pdfProtection.password)) {
+      alert("The password contains characters PDF passwords can't use, such as control characters. Choose a different password.");
+      return;
+    }
     setIsProcessing(true);
     try {
-      if (type === 'pdf') await exportToPDF(currentDoc);
-      if (type === 'img') {
-          if (currentDoc.pages.length === 1) {
-              await downloadSinglePage(currentDoc.pages[0], currentDoc.title, imgFormat);
-          } else {
-              await exportToZIP(currentDoc, imgFormat);
-          }
+      let file: File;
+      if (type === 'pdf') {
+        file = await exportToPDF(currentDoc, {
+          searchable: searchablePdf,
+          settings: pdfSettings,
+          protection: pdfProtection ?? undefined,
+          onProgress: (done, total) => searchablePdf && setProgressMessage(`Recognizing text ${done}/${total}`)
+        });
+      } else if (type === 'img') {
+        file = currentDoc.pages.length === 1
+          ? await exportSinglePage(currentDoc.pages[0], currentDoc.title, imgFormat)
+          : await exportToZIP(currentDoc, imgFormat);
+      } else if (type === 'txt') {
+        file = exportToTXT(currentDoc);
+      } else {
+        file = exportToCSV(currentDoc);
+      }
+
+      if (action === 'SHARE') {
+        await shareOrDownload(file, currentDoc.title);
+      } else {
+        downloadFile(file);
       }
-      if (type === 'txt') exportToTXT(currentDoc);
       setShowExportSheet(false);
     } catch (error) {
       console.error(error);
       alert("Export failed. Please try again.");
     } finally {
       setIsProcessing(false);
+      setProgressMessage('');
     }
   };
 
-  // --- HIGHLIGHTING LOGIC ---
+  // --- ANNOTATION LOGIC ---
 
-  const prepareHighlighting = async () => {
+  const prepareAnnotating = async () => {
     if (!currentDoc) return;
     const page = currentDoc.pages[editorPageIndex];
-    const clean = await processImage(page.originalDataUrl, page.filter, page.rotation, undefined);
-    setCleanImageForHighlighting(clean);
-    setIsHighlighting(true);
+    // Annotations are drawn live on top, so the backdrop is the page without them
+    const clean = await processImage(page.originalDataUrl, page.filter, page.rotation, page.highlightsLayer, page.corners);
+    const img = await new Promise<HTMLImageElement>((resolve) => {
+      const i = new Image();
+      i.onload = () => resolve(i);
+      i.src = clean;
+    });
+    setCleanImageForAnnotating(clean);
+    setAnnotationImageSize({ width: img.width, height: img.height });
+    setAnnotationDraft(page.annotations ?? []);
+    setAnnotationUndo([]);
+    setAnnotationRedo([]);
+    setSelectedAnnotationId(null);
+    setIsAnnotating(true);
   };
 
-  useEffect(() => {
-    if (isHighlighting && currentDoc && editorCanvasRef.current && cleanImageForHighlighting) {
-      const canvas = editorCanvasRef.current;
-      const ctx = canvas.getContext('2d');
-      const img = new Image();
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        if (ctx) {
-          ctx.lineCap = 'round';
-          ctx.lineJoin = 'round';
-          
-          if (currentDoc.pages[editorPageIndex].highlightsLayer) {
-             const hl = new Image();
-             hl.onload = () => ctx.drawImage(hl, 0, 0);
-             hl.src = currentDoc.pages[editorPageIndex].highlightsLayer!;
-          }
-        }
-      };
-      img.src = cleanImageForHighlighting;
+  const commitAnnotations = (next: Annotation[], previous = annotationDraft) => {
+    setAnnotationUndo(prev => [...prev.slice(1 - MAX_HISTORY), previous]);
+    setAnnotationRedo([]);
+    setAnnotationDraft(next);
+  };
+
+  const stepAnnotations = (from: Annotation[][], setFrom: (s: Annotation[][]) => void, setTo: React.Dispatch<React.SetStateAction<Annotation[][]>>) => {
+    if (from.length === 0) return;
+    setFrom(from.slice(0, -1));
+    setTo(prev => [...prev, annotationDraft]);
+    setAnnotationDraft(from[from.length - 1]);
+    setSelectedAnnotationId(null);
+  };
+
+  const newAnnotation = (type: AnnotationType, points: Point[], text?: string): Annotation => ({
+    id: generateId(),
+    type,
+    color: annotationColor,
+    size: type === 'TEXT' ? ANNOTATION_SIZES[annotationSize].text : ANNOTATION_SIZES[annotationSize].line,
+    points,
+    text
+  });
+
+  // Pointer position -> normalized point on the unrotated page
+  const toPagePoint = (e: React.PointerEvent): Point => {
+    const rect = annotationSvgRef.current!.getBoundingClientRect();
+    const display = {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+    return fromDisplayPoint(display, currentDoc!.pages[editorPageIndex].rotation);
+  };
+
+  const startAnnotation = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toPagePoint(e);
+    const hitId = (e.target as Element).closest('[data-annotation-id]')?.getAttribute('data-annotation-id') ?? null;
+
+    if (annotationTool === 'ERASER') {
+      if (hitId) commitAnnotations(annotationDraft.filter(a => a.id !== hitId));
+      return;
+    }
+    if (annotationTool === 'SELECT') {
+      setSelectedAnnotationId(hitId);
+      if (hitId) {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        annotationDragRef.current = { id: hitId, start: point, before: annotationDraft };
+      }
+      return;
     }
-  }, [isHighlighting, cleanImageForHighlighting]);
+    if (annotationTool === 'TEXT' || annotationTool === 'NOTE') {
+      const text = prompt(annotationTool === 'TEXT' ? "Text:" : "Note:")?.trim();
+      if (text) commitAnnotations([...annotationDraft, newAnnotation(annotationTool, [point], text)]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setActiveAnnotation(newAnnotation(annotationTool, annotationTool === 'STROKE' ? [point] : [point, point]));
+  };
 
-  const getCanvasCoordinates = (e: React.MouseEvent | React.TouchEvent | any) => {
-    const canvas = editorCanvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    let clientX = e.clientX;
-    let clientY = e.clientY;
-    
-    if (e.touches && e.touches.length > 0) {
-        clientX = e.touches[0].clientX;
-        clientY = e.touches[0].clientY;
-    } else if (e.nativeEvent && e.nativeEvent.touches && e.nativeEvent.touches.length > 0) {
-         clientX = e.nativeEvent.touches[0].clientX;
-         clientY = e.nativeEvent.touches[0].clientY;
+  const moveAnnotation = (e: React.PointerEvent) => {
+    const drag = annotationDragRef.current;
+    if (drag) {
+      const point = toPagePoint(e);
+      const dx = point.x - drag.start.x;
+      const dy = point.y - drag.start.y;
+      setAnnotationDraft(drag.before.map(a => a.id === drag.id ? { ...a, points: a.points.map(p => ({ x: p.x + dx, y: p.y + dy })) } : a));
+    } else if (activeAnnotation) {
+      const point = toPagePoint(e);
+      const points = activeAnnotation.type === 'STROKE' ? [...activeAnnotation.points, point] : [activeAnnotation.points[0], point];
+      setActiveAnnotation({ ...activeAnnotation, points });
+    }
+  };
+
+  const endAnnotation = () => {
+    const drag = annotationDragRef.current;
+    annotationDragRef.current = null;
+    if (drag && drag.before !== annotationDraft) commitAnnotations(annotationDraft, drag.before);
+
+    if (activeAnnotation) {
+      const [a, b] = activeAnnotation.points;
+      // A tap leaves a dot with the pen but no zero-size box or arrow
+      if (activeAnnotation.type === 'STROKE' || a.x !== b.x || a.y !== b.y) {
+        commitAnnotations([...annotationDraft, activeAnnotation]);
+      }
+      setActiveAnnotation(null);
+    }
+  };
+
+  const selectedAnnotation = annotationDraft.find(a => a.id === selectedAnnotationId);
+
+  const updateSelectedAnnotation = (changes: Partial<Annotation>) => {
+    commitAnnotations(annotationDraft.map(a => a.id === selectedAnnotationId ? { ...a, ...changes } : a));
+  };
+
+  const editSelectedText = () => {
+    const text = prompt("Text:", selectedAnnotation?.text)?.trim();
+    if (text) updateSelectedAnnotation({ text });
+  };
+
+  const deleteSelectedAnnotation = () => {
+    commitAnnotations(annotationDraft.filter(a => a.id !== selectedAnnotationId));
+    setSelectedAnnotationId(null);
+  };
+
+  const chooseAnnotationColor = (color: string) => {
+    setAnnotationColor(color);
+    if (selectedAnnotation && selectedAnnotation.type !== 'NOTE' && selectedAnnotation.type !== 'SIGNATURE') updateSelectedAnnotation({ color });
+  };
+
+  // Slider drags update the draft live and land in the history as a single step
+  const adjustSelectedAnnotation = (changes: Partial<Annotation>) => {
+    if (!annotationAdjustRef.current) {
+      updateSelectedAnnotation(changes);
+      return;
+    }
+    setAnnotationDraft(annotationDraft.map(a => a.id === selectedAnnotationId ? { ...a, ...changes } : a));
+  };
+
+  const finishAdjusting = () => {
+    const before = annotationAdjustRef.current;
+    annotationAdjustRef.current = null;
+    if (before && before !== annotationDraft) commitAnnotations(annotationDraft, before);
+  };
+
+  // --- SIGNATURES ---
+
+  const openSignatureSheet = async () => {
+    try {
+      setSignatures(await listSignatures());
+    } catch (error) {
+      console.error("Failed to load signatures:", error);
+    }
+    setShowSignatureSheet(true);
+  };
+
+  const addSignature = async (signature: Signature) => {
+    try {
+      await saveSignature(signature);
+      setSignatures(prev => [signature, ...prev]);
+      setShowSignaturePad(false);
+    } catch (error) {
+      console.error("Failed to save signature:", error);
+      alert("Could not save the signature.");
     }
+  };
+
+  const handleSignatureImport = async (file?: File) => {
+    if (!file) return;
+    try {
+      const signature = await importSignature(file);
+      if (!signature) {
+        alert("No signature found in this image. Use a photo of dark ink on light paper.");
+        return;
+      }
+      await addSignature(signature);
+    } catch (error) {
+      console.error("Signature import failed:", error);
+      alert("Could not read this image.");
+    }
+  };
+
+  const removeSignature = async (id: string) => {
+    if (!confirm("Delete this signature from the library? Pages already signed keep it.")) return;
+    await deleteSignature(id);
+    setSignatures(prev => prev.filter(s => s.id !== id));
+  };
+
+  // Drops the signature upright in the middle of the page and selects it for moving, resizing and turning
+  const placeSignature = (signature: Signature) => {
+    if (!currentDoc) return;
+    const annotation: Annotation = {
+      id: generateId(),
+      type: 'SIGNATURE',
+      color: '',
+      size: SIGNATURE_WIDTH,
+      points: [{ x: 0.5, y: 0.5 }],
+      image: signature.dataUrl,
+      aspect: signature.height / signature.width,
+      angle: (540 - currentDoc.pages[editorPageIndex].rotation) % 360 - 180
+    };
+    commitAnnotations([...annotationDraft, annotation]);
+    setAnnotationTool('SELECT');
+    setSelectedAnnotationId(annotation.id);
+    setShowSignatureSheet(false);
+  };
+
+  const saveAnnotations = async () => {
+    if (!currentDoc) return;
+    setIsProcessing(true);
+    const page = currentDoc.pages[editorPageIndex];
+    const processed = await processImage(page.originalDataUrl, page.filter, page.rotation, page.highlightsLayer, page.corners, annotationDraft);
+    const updatedPages = [...currentDoc.pages];
+    updatedPages[editorPageIndex] = { ...page, annotations: annotationDraft, processedDataUrl: processed };
+    commitPages(updatedPages);
+    setIsAnnotating(false);
+    setIsProcessing(false);
+  };
+
+  // --- REDACTION LOGIC ---
+
+  const prepareRedacting = async () => {
+    if (!currentDoc) return;
+    const img = await new Promise<HTMLImageElement>((resolve) => {
+      const i = new Image();
+      i.onload = () => resolve(i);
+      i.src = currentDoc.pages[editorPageIndex].processedDataUrl;
+    });
+    setRedactionImageSize({ width: img.width, height: img.height });
+    setRedactionBoxes([]);
+    setIsRedacting(true);
+  };
 
+  const toRedactionPoint = (e: React.PointerEvent): Point => {
+    const rect = redactionSvgRef.current!.getBoundingClientRect();
     return {
-      x: (clientX - rect.left) * scaleX,
-      y: (clientY - rect.top) * scaleY
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
     };
   };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    setIsDrawing(true);
-    const { x, y } = getCanvasCoordinates(e);
-    const ctx = editorCanvasRef.current?.getContext('2d');
-    if (ctx) {
-      ctx.beginPath();
-      ctx.moveTo(x, y);
-      ctx.lineWidth = 40; 
-      ctx.strokeStyle = highlightColor;
-      ctx.globalCompositeOperation = 'source-over'; 
+  // Dragging draws a box; tapping an existing box removes it
+  const startRedaction = (e: React.PointerEvent<SVGSVGElement>) => {
+    const hitId = (e.target as Element).closest('[data-redaction-id]')?.getAttribute('data-redaction-id');
+    if (hitId) {
+      setRedactionBoxes(prev => prev.filter(box => box.id !== hitId));
+      return;
     }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const start = toRedactionPoint(e);
+    redactionStartRef.current = start;
+    setDraftRedaction({ id: generateId(), ...start, width: 0, height: 0 });
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing) return;
-    const { x, y } = getCanvasCoordinates(e);
-    const ctx = editorCanvasRef.current?.getContext('2d');
-    if (ctx) {
-      ctx.lineTo(x, y);
-      ctx.stroke();
+  const moveRedaction = (e: React.PointerEvent) => {
+    const start = redactionStartRef.current;
+    if (!start || !draftRedaction) return;
+    const p = toRedactionPoint(e);
+    setDraftRedaction({
+      ...draftRedaction,
+      x: Math.min(start.x, p.x),
+      y: Math.min(start.y, p.y),
+      width: Math.abs(p.x - start.x),
+      height: Math.abs(p.y - start.y)
+    });
+  };
+
+  const endRedaction = () => {
+    redactionStartRef.current = null;
+    if (draftRedaction && draftRedaction.width > 0.005 && draftRedaction.height > 0.005) {
+      setRedactionBoxes(prev => [...prev, draftRedaction]);
     }
+    setDraftRedaction(null);
   };
 
-  const stopDrawing = () => {
-    setIsDrawing(false);
-    const ctx = editorCanvasRef.current?.getContext('2d');
-    if (ctx) ctx.closePath();
+  // Proposes boxes over personal data found by OCR; nothing is burned in until the user applies them
+  const autoDetectRedactions = async () => {
+    if (!currentDoc) return;
+    setIsProcessing(true);
+    setProgressMessage('Reading page...');
+    try {
+      const [page] = await recognizeMissingPages([currentDoc.pages[editorPageIndex]]);
+      // Keep the OCR so applying the redaction can drop the covered words from it
+      setCurrentDoc({ ...currentDoc, pages: currentDoc.pages.map((p, i) => i === editorPageIndex ? page : p) });
+      const found = findSensitiveText(page.ocr!);
+      if (found.length === 0) {
+        alert("No emails, phone numbers, account or ID numbers found on this page.");
+      } else {
+        setRedactionBoxes(prev => [...prev, ...found]);
+      }
+    } catch (error) {
+      console.error("Auto-detect failed:", error);
+      alert("Could not read this page. Draw the boxes manually.");
+    } finally {
+      setIsProcessing(false);
+      setProgressMessage('');
+    }
   };
 
-  const saveHighlights = async () => {
-    if (editorCanvasRef.current && currentDoc) {
-      const highlightsDataUrl = editorCanvasRef.current.toDataURL('image/png'); 
-      const page = currentDoc.pages[editorPageIndex];
-      const finalComposite = await processImage(
-          page.originalDataUrl, 
-          page.filter, 
-          page.rotation, 
-          highlightsDataUrl
-      );
+  const applyRedactions = async () => {
+    if (!currentDoc) return;
+    if (redactionBoxes.length === 0) {
+      setIsRedacting(false);
+      return;
+    }
+    if (!confirm(`Black out ${redactionBoxes.length} ${redactionBoxes.length === 1 ? 'area' : 'areas'}? Once the document is saved, the covered content is gone from the original capture too. The summary, translation and extracted receipt fields are cleared, as they may quote it.`)) return;
+    setIsProcessing(true);
+    try {
       const updatedPages = [...currentDoc.pages];
-      updatedPages[editorPageIndex] = { 
-          ...updatedPages[editorPageIndex], 
-          highlightsLayer: highlightsDataUrl,
-          processedDataUrl: finalComposite 
-      };
-      setCurrentDoc({ ...currentDoc, pages: updatedPages });
-      setIsHighlighting(false);
+      updatedPages[editorPageIndex] = await burnRedactions(currentDoc.pages[editorPageIndex], redactionBoxes);
+      commitPages(updatedPages);
+      setCurrentDoc(prev => prev && clearRedactedMetadata(prev));
+      setIsRedacting(false);
+    } catch (error) {
+      console.error("Redaction failed:", error);
+      alert("Could not apply the redaction. Please try again.");
+    } finally {
+      setIsProcessing(false);
     }
   };
 
+  // --- CROP LOGIC ---
+
+  const fullFrameCorners = (width: number, height: number): Point[] => [
+    { x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }
+  ];
+
+  const prepareCropping = async () => {
+    if (!currentDoc) return;
+    const page = currentDoc.pages[editorPageIndex];
+    const img = await new Promise<HTMLImageElement>((resolve) => {
+      const i = new Image();
+      i.onload = () => resolve(i);
+      i.src = page.originalDataUrl;
+    });
+    setCropImageSize({ width: img.width, height: img.height });
+    setCropCorners(page.corners ?? findDocumentCorners(img, img.width, img.height) ?? fullFrameCorners(img.width, img.height));
+    setIsCropping(true);
+  };
+
+  const autoDetectCrop = async () => {
+    if (!currentDoc) return;
+    const img = new Image();
+    img.onload = () => {
+      const detected = findDocumentCorners(img, img.width, img.height);
+      if (detected) {
+        setCropCorners(detected);
+      } else {
+        alert("No page outline found. Drag the corners manually.");
+      }
+    };
+    img.src = currentDoc.pages[editorPageIndex].originalDataUrl;
+  };
+
+  const moveCropCorner = (e: React.PointerEvent) => {
+    if (draggingCorner === null || !cropSvgRef.current) return;
+    const rect = cropSvgRef.current.getBoundingClientRect();
+    const x = Math.min(cropImageSize.width, Math.max(0, (e.clientX - rect.left) * cropImageSize.width / rect.width));
+    const y = Math.min(cropImageSize.height, Math.max(0, (e.clientY - rect.top) * cropImageSize.height / rect.height));
+    setCropCorners(prev => prev.map((p, i) => i === draggingCorner ? { x, y } : p));
+  };
+
+  const saveCrop = async () => {
+    if (!currentDoc) return;
+    setIsProcessing(true);
+    const page = currentDoc.pages[editorPageIndex];
+    // Handles may have been dragged past each other; re-sort so the warp isn't mirrored
+    const corners = orderCorners(cropCorners);
+    const processed = await processImage(page.originalDataUrl, page.filter, page.rotation, page.highlightsLayer, corners, page.annotations);
+
+    const updatedPages = [...currentDoc.pages];
+    updatedPages[editorPageIndex] = { ...page, corners, processedDataUrl: processed, ocr: undefined };
+    commitPages(updatedPages);
+    setIsCropping(false);
+    setIsProcessing(false);
+  };
+
   // --- RENDER HELPERS ---
 
   const renderDashboard = () => (
-    <div className="min-h-screen bg-gray-50 pb-safe relative">
+    <div
+      className="min-h-screen bg-gray-50 pb-safe relative"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+      }}
+      onDrop={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        handleImport(e.dataTransfer.files);
+      }}
+    >
+      {isDraggingFiles && (
+        <div className="fixed inset-4 z-50 rounded-3xl border-4 border-dashed border-blue-400 bg-blue-50/90 flex flex-col items-center justify-center text-blue-700 pointer-events-none">
+          <FileUp size={48} className="mb-3" />
+          <p className="text-lg font-semibold">Drop images or PDFs to import</p>
+        </div>
+      )}
+
       <header className="bg-white sticky top-0 z-40 px-6 py-4 pt-safe border-b border-gray-100 flex justify-between items-center shadow-sm">
         <div>
           <h1 className="text-2xl font-bold text-gray-900 tracking-tight">Open Scan</h1>
@@ -497,33 +1722,214 @@ const App: React.FC = () => {
             </button>
           )}
 
+          {isVaultOn && !isSelectionMode && (
+            <button
+              type="button"
+              onClick={lockLibrary}
+              className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-gray-600"
+              aria-label="Lock"
+            >
+              <Lock size={16} />
+            </button>
+          )}
+
           {!isSelectionMode && (
-             <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold">
-               AI
-             </div>
+             <button
+               type="button"
+               onClick={() => { setAISettingsDraft(loadAISettings()); setView(AppView.SETTINGS); }}
+               className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600"
+               aria-label="Settings"
+             >
+               <Settings size={18} />
+             </button>
+          )}
+        </div>
+      </header>
+
+      {/* Search & Filters */}
+      {documents.length > 0 && (
+        <div className="px-4 pt-4 space-y-3">
+          <div className="flex gap-2">
+            <div className="flex-1 relative">
+              <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search titles, text, translations..."
+                className="w-full pl-10 pr-3 py-2.5 rounded-xl border border-gray-200 bg-white text-gray-800 text-sm"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowFilters(!showFilters)}
+              className={`px-3 rounded-xl border transition-colors ${showFilters || hasActiveFilters ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-gray-200 text-gray-600'}`}
+              aria-label="Filters"
+            >
+              <SlidersHorizontal size={18} />
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="bg-white rounded-xl border border-gray-100 p-3 grid grid-cols-2 gap-3 text-sm">
+              <label className="col-span-2">
+                <span className="block text-xs font-medium text-gray-500 mb-1">Category</span>
+                <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50">
+                  <option value="">All categories</option>
+                  {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </label>
+              <label>
+                <span className="block text-xs font-medium text-gray-500 mb-1">From</span>
+                <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50" />
+              </label>
+              <label>
+                <span className="block text-xs font-medium text-gray-500 mb-1">To</span>
+                <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50" />
+              </label>
+              <label>
+                <span className="block text-xs font-medium text-gray-500 mb-1">Sort by</span>
+                <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as SortOrder)} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50">
+                  <option value="NEWEST">Newest first</option>
+                  <option value="OLDEST">Oldest first</option>
+                  <option value="TITLE">Title (A-Z)</option>
+                </select>
+              </label>
+              <div className="flex items-end">
+                <button type="button" onClick={clearFilters} disabled={!hasActiveFilters} className="w-full p-2 rounded-lg text-blue-600 font-medium disabled:text-gray-300">
+                  Clear filters
+                </button>
+              </div>
+            </div>
+          )}
+
+          {allTags.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => setTagFilter(tagFilter === tag ? '' : tag)}
+                  className={`flex-shrink-0 flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${tagFilter === tag ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600'}`}
+                >
+                  <Tag size={12} /> {tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-50 bg-white/60 flex flex-col items-center justify-center backdrop-blur-sm">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          {progressMessage && <span className="mt-3 text-sm font-medium text-gray-700">{progressMessage}</span>}
+        </div>
+      )}
+
+      <div className="p-4 grid gap-4 pb-28">
+        {!isLibraryReady ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : documents.length === 0 && folders.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+            <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mb-4 text-gray-300">
+              <Camera size={40} />
+            </div>
+            <p className="text-lg font-medium text-gray-500">No scans yet</p>
+            <p className="text-sm mb-6 text-gray-400">Tap the blue camera button to start, or import images and PDFs</p>
+          </div>
+        ) : (
+          <>
+          {isSearchingLibrary ? (
+            <p className="text-xs text-gray-500 px-1">Searching all folders</p>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <nav className="flex items-center gap-1 min-w-0 text-sm overflow-x-auto no-scrollbar">
+                <button
+                  type="button"
+                  onClick={() => setCurrentFolderId(null)}
+                  {...folderDropProps(null)}
+                  className={`flex-shrink-0 px-2 py-1 rounded-lg font-medium ${dropFolderId === null ? 'bg-blue-100 text-blue-700' : currentFolderId ? 'text-blue-600' : 'text-gray-900'}`}
+                >
+                  Library
+                </button>
+                {folderPath.map(folder => (
+                  <React.Fragment key={folder.id}>
+                    <ChevronRight size={14} className="flex-shrink-0 text-gray-400" />
+                    <button
+                      type="button"
+                      onClick={() => setCurrentFolderId(folder.id)}
+                      {...folderDropProps(folder.id)}
+                      className={`flex-shrink-0 px-2 py-1 rounded-lg font-medium truncate max-w-[10rem] ${dropFolderId === folder.id ? 'bg-blue-100 text-blue-700' : folder.id === currentFolderId ? 'text-gray-900' : 'text-blue-600'}`}
+                    >
+                      {folder.name}
+                    </button>
+                  </React.Fragment>
+                ))}
+              </nav>
+              {!isSelectionMode && (
+                <button type="button" onClick={createFolder} className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50">
+                  <FolderPlus size={16} /> New folder
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Subfolders (drop documents on them in selection mode) */}
+          {!isSearchingLibrary && subfolders.length > 0 && (
+            <div className="grid grid-cols-2 gap-3">
+              {subfolders.map(folder => (
+                <div
+                  key={folder.id}
+                  onClick={() => setCurrentFolderId(folder.id)}
+                  {...folderDropProps(folder.id)}
+                  className={`bg-white rounded-xl px-3 py-3 border shadow-sm flex items-center gap-2 cursor-pointer transition-colors ${dropFolderId === folder.id ? 'border-blue-500 ring-1 ring-blue-500 bg-blue-50' : 'border-gray-100'}`}
+                >
+                  <FolderIcon size={20} className="flex-shrink-0 text-blue-500" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 truncate">{folder.name}</p>
+                    <p className="text-[11px] text-gray-400">{documents.filter(d => d.folderId === folder.id).length} docs</p>
+                  </div>
+                  {!isSelectionMode && (
+                    <div className="flex flex-shrink-0">
+                      <button type="button" onClick={(e) => renameFolder(folder, e)} className="p-1.5 text-gray-400 hover:text-blue-600" aria-label="Rename folder">
+                        <Pencil size={14} />
+                      </button>
+                      <button type="button" onClick={(e) => removeFolder(folder, e)} className="p-1.5 text-gray-400 hover:text-red-600" aria-label="Delete folder">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
           )}
-        </div>
-      </header>
 
-      <div className="p-4 grid gap-4 pb-28">
-        {documents.length === 0 ? (
-          <div className="flex flex-col items-center justify-center py-20 text-gray-400">
-            <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mb-4 text-gray-300">
-              <Camera size={40} />
-            </div>
-            <p className="text-lg font-medium text-gray-500">No scans yet</p>
-            <p className="text-sm mb-6 text-gray-400">Tap the blue camera button to start</p>
-          </div>
-        ) : (
-          documents.map(doc => (
+          {visibleDocuments.length === 0 ? (
+            isSearchingLibrary ? (
+              <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+                <Search size={32} className="mb-3 text-gray-300" />
+                <p className="text-sm text-gray-500">No documents match your search</p>
+              </div>
+            ) : subfolders.length === 0 && (
+              <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+                <FolderIcon size={32} className="mb-3 text-gray-300" />
+                <p className="text-sm text-gray-500">This folder is empty</p>
+              </div>
+            )
+          ) : (
+          visibleDocuments.map(doc => (
             <div 
               key={doc.id} 
+              draggable={isSelectionMode}
+              onDragStart={(e) => startDocumentDrag(doc.id, e)}
               onClick={(e) => {
                 if (isSelectionMode) {
                   toggleDocSelection(doc.id, e);
                 } else {
-                  setCurrentDoc(doc); 
-                  setView(AppView.DETAILS);
+                  openDocument(doc.id);
                 }
               }} 
               className={`bg-white rounded-2xl p-4 shadow-sm border transition-all cursor-pointer relative group ${
@@ -557,7 +1963,7 @@ const App: React.FC = () => {
 
               <div className="flex gap-4">
                 <div className="w-20 h-24 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0 border border-gray-200 relative">
-                  <img src={doc.pages[0].processedDataUrl} className="w-full h-full object-cover" alt="Preview" />
+                  <DocumentThumbnail doc={doc} className="w-full h-full" />
                   {doc.pages.length > 1 && (
                     <div className="absolute bottom-0 right-0 bg-black/50 text-white text-[10px] px-1.5 py-0.5 rounded-tl-lg">
                       +{doc.pages.length - 1}
@@ -573,6 +1979,13 @@ const App: React.FC = () => {
                         <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{doc.category}</span>
                         <span className="text-xs text-gray-400">• {formatDate(doc.createdAt)}</span>
                     </div>
+                    {doc.tags && doc.tags.length > 0 && (
+                      <div className="flex gap-1 mt-1 overflow-hidden">
+                        {doc.tags.slice(0, 3).map(tag => (
+                          <span key={tag} className="text-[10px] text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded-full whitespace-nowrap">#{tag}</span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   {doc.aiSummary && (
                     <p className="text-sm text-gray-600 mt-2 line-clamp-1 leading-relaxed bg-blue-50 px-2 py-1 rounded text-xs truncate">
@@ -589,32 +2002,109 @@ const App: React.FC = () => {
               </div>
             </div>
           ))
+          )}
+          </>
         )}
       </div>
 
+      {/* Move-to-folder Sheet */}
+      {showMoveSheet && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex flex-col justify-end">
+          <div className="bg-white rounded-t-2xl p-6 pb-safe animate-slide-up shadow-2xl max-h-[70vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="font-bold text-xl text-gray-900">Move {selectedIds.size} {selectedIds.size === 1 ? 'document' : 'documents'}</h3>
+              <button type="button" onClick={() => setShowMoveSheet(false)} className="bg-gray-100 p-2 rounded-full text-gray-600"><X size={20} /></button>
+            </div>
+            <div className="space-y-1">
+              <button type="button" onClick={() => moveDocuments(Array.from(selectedIds), null)} className="w-full flex items-center gap-3 p-3 rounded-xl hover:bg-gray-50 text-left font-medium text-gray-800">
+                <FolderIcon size={18} className="text-gray-400" /> Library (no folder)
+              </button>
+              {folderTree.map(({ folder, depth }) => (
+                <button
+                  key={folder.id}
+                  type="button"
+                  onClick={() => moveDocuments(Array.from(selectedIds), folder.id)}
+                  className="w-full flex items-center gap-3 p-3 rounded-xl hover:bg-gray-50 text-left text-gray-800"
+                  style={{ paddingLeft: 12 + depth * 20 }}
+                >
+                  <FolderIcon size={18} className="text-blue-500 flex-shrink-0" />
+                  <span className="truncate">{folder.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="fixed bottom-6 left-0 right-0 flex justify-center z-30 pb-safe px-4 pointer-events-none">
         {isSelectionMode ? (
-          <button 
-            type="button"
-            onClick={initiateBatchDelete}
-            disabled={selectedIds.size === 0}
-            className={`pointer-events-auto w-full max-w-sm flex items-center justify-center gap-2 rounded-xl p-4 shadow-xl transition-all ${
-              selectedIds.size > 0 
-              ? 'bg-red-600 text-white hover:bg-red-700 shadow-red-600/30' 
-              : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-            }`}
-          >
-            <Trash2 size={20} />
-            <span className="font-bold">Delete {selectedIds.size > 0 ? `(${selectedIds.size})` : ''}</span>
-          </button>
+          <div className="pointer-events-auto w-full max-w-sm flex gap-3">
+            <button
+              type="button"
+              onClick={() => setShowMoveSheet(true)}
+              disabled={selectedIds.size === 0}
+              className={`flex-1 flex items-center justify-center gap-2 rounded-xl p-4 shadow-xl transition-all ${
+                selectedIds.size > 0
+                ? 'bg-blue-600 text-white hover:bg-blue-700 shadow-blue-600/30'
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <FolderInput size={20} />
+              <span className="font-bold">Move</span>
+            </button>
+            <button
+              type="button"
+              onClick={mergeSelectedDocuments}
+              disabled={selectedIds.size < 2}
+              className={`flex-1 flex items-center justify-center gap-2 rounded-xl p-4 shadow-xl transition-all ${
+                selectedIds.size > 1
+                ? 'bg-gray-900 text-white hover:bg-gray-800 shadow-gray-900/30'
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <Combine size={20} />
+              <span className="font-bold">Merge</span>
+            </button>
+            <button 
+              type="button"
+              onClick={initiateBatchDelete}
+              disabled={selectedIds.size === 0}
+              className={`flex-1 flex items-center justify-center gap-2 rounded-xl p-4 shadow-xl transition-all ${
+                selectedIds.size > 0 
+                ? 'bg-red-600 text-white hover:bg-red-700 shadow-red-600/30' 
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <Trash2 size={20} />
+              <span className="font-bold">Delete {selectedIds.size > 0 ? `(${selectedIds.size})` : ''}</span>
+            </button>
+          </div>
         ) : (
-          <button 
-            type="button"
-            onClick={() => { setCurrentDoc(null); setView(AppView.CAMERA); }}
-            className="pointer-events-auto bg-blue-600 text-white rounded-full p-5 shadow-xl shadow-blue-600/40 hover:bg-blue-700 hover:scale-105 transition-all"
-          >
-            <Camera size={28} />
-          </button>
+          <div className="relative">
+            <button 
+              type="button"
+              onClick={() => { setCurrentDoc(null); setView(AppView.CAMERA); }}
+              className="pointer-events-auto bg-blue-600 text-white rounded-full p-5 shadow-xl shadow-blue-600/40 hover:bg-blue-700 hover:scale-105 transition-all"
+            >
+              <Camera size={28} />
+            </button>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              className="pointer-events-auto absolute left-full top-1/2 -translate-y-1/2 ml-4 bg-white text-blue-600 rounded-full p-3 shadow-lg border border-gray-100 hover:bg-blue-50 transition-all"
+              aria-label="Import files"
+            >
+              <FileUp size={22} />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={IMPORT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={(e) => { handleImport(e.target.files); e.target.value = ''; }}
+            />
+          </div>
         )}
       </div>
     </div>
@@ -625,6 +2115,22 @@ const App: React.FC = () => {
       <div className="flex-1 relative overflow-hidden flex items-center justify-center">
         <video ref={videoRef} autoPlay playsInline className="absolute w-full h-full object-cover" />
         <canvas ref={canvasRef} className="hidden" />
+        {/* Live page outline (viewBox in video pixels; "slice" mirrors object-cover) */}
+        {detectedCorners && videoRef.current && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none z-10"
+            viewBox={`0 0 ${videoRef.current.videoWidth} ${videoRef.current.videoHeight}`}
+            preserveAspectRatio="xMidYMid slice"
+          >
+            <polygon
+              points={detectedCorners.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(37, 99, 235, 0.2)"
+              stroke="#3b82f6"
+              strokeWidth={6}
+              strokeLinejoin="round"
+            />
+          </svg>
+        )}
         <div className="absolute inset-0 pointer-events-none border-[40px] border-black/50">
            <div className="w-full h-full border-2 border-white/50 rounded-lg relative">
              <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-blue-500 rounded-tl-lg"></div>
@@ -636,13 +2142,13 @@ const App: React.FC = () => {
         
         {/* Mode Indicator Overlay */}
         <div className="absolute top-8 pt-safe text-white bg-black/40 px-3 py-1 rounded-full text-sm font-medium backdrop-blur-sm">
-           {scanMode === 'BATCH' ? `Batch Mode (${batchPages.length})` : 'Single Mode'}
+           {pageInsertIndex !== null ? `Adding Pages (${batchPages.length})` : scanMode === 'BATCH' ? `Batch Mode (${batchPages.length})` : 'Single Mode'}
         </div>
       </div>
 
       <div className="bg-black pt-4 pb-8 px-8 pb-safe">
         {/* Mode Toggle */}
-        {batchPages.length === 0 && (
+        {batchPages.length === 0 && pageInsertIndex === null && (
           <div className="flex justify-center mb-6">
             <div className="bg-white/20 p-1 rounded-full flex relative">
                <button 
@@ -674,7 +2180,7 @@ const App: React.FC = () => {
                  </div>
                </div>
             ) : (
-               <button type="button" onClick={() => setView(AppView.DASHBOARD)} className="text-white p-2 bg-white/10 rounded-full">
+               <button type="button" onClick={leaveCamera} className="text-white p-2 bg-white/10 rounded-full">
                  <ArrowLeft />
                </button>
             )}
@@ -706,50 +2212,331 @@ const App: React.FC = () => {
     const safeIndex = editorPageIndex >= pageCount ? 0 : editorPageIndex;
     const currentPage = currentDoc.pages[safeIndex];
 
-    if (isHighlighting) {
+    if (isCropping) {
+      const handleRadius = Math.max(cropImageSize.width, cropImageSize.height) * 0.025;
+      return (
+        <div className="flex flex-col h-safe-screen bg-gray-900">
+           {/* Crop Toolbar */}
+           <div className="flex items-center justify-between px-4 py-3 pt-safe bg-gray-900 text-white border-b border-gray-800 z-10">
+              <button type="button" onClick={() => setIsCropping(false)} className="text-gray-400 hover:text-white">Cancel</button>
+              <div className="flex items-center gap-2">
+                <Crop size={18} className="text-blue-400" />
+                <span className="font-semibold text-sm">Crop (Page {safeIndex + 1})</span>
+              </div>
+              <button type="button" onClick={saveCrop} className="text-blue-400 font-bold">Done</button>
+           </div>
+
+           {/* Corner Handles over the raw capture */}
+           <div className="flex-1 overflow-hidden flex items-center justify-center bg-gray-800 p-6 touch-none">
+              <div className="relative inline-block">
+                <img src={currentPage.originalDataUrl} className="block max-w-full max-h-[75vh]" alt="Original" />
+                <svg
+                  ref={cropSvgRef}
+                  className="absolute inset-0 w-full h-full overflow-visible"
+                  viewBox={`0 0 ${cropImageSize.width} ${cropImageSize.height}`}
+                  preserveAspectRatio="none"
+                  onPointerMove={moveCropCorner}
+                  onPointerUp={() => setDraggingCorner(null)}
+                  onPointerLeave={() => setDraggingCorner(null)}
+                  style={{ touchAction: 'none' }}
+                >
+                  <polygon
+                    points={cropCorners.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="rgba(37, 99, 235, 0.15)"
+                    stroke="#3b82f6"
+                    strokeWidth={handleRadius / 4}
+                  />
+                  {cropCorners.map((p, i) => (
+                    <circle
+                      key={i}
+                      cx={p.x}
+                      cy={p.y}
+                      r={handleRadius}
+                      fill={draggingCorner === i ? '#2563eb' : 'white'}
+                      stroke="#2563eb"
+                      strokeWidth={handleRadius / 4}
+                      className="cursor-grab"
+                      onPointerDown={(e) => {
+                        e.currentTarget.setPointerCapture(e.pointerId);
+                        setDraggingCorner(i);
+                      }}
+                    />
+                  ))}
+                </svg>
+              </div>
+           </div>
+
+           <div className="bg-gray-900 border-t border-gray-800 px-4 py-4 pb-safe">
+              <div className="flex justify-center gap-4">
+                 <button type="button" onClick={autoDetectCrop} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 text-white text-sm font-medium">
+                   <ScanLine size={16} /> Auto Detect
+                 </button>
+                 <button type="button" onClick={() => setCropCorners(fullFrameCorners(cropImageSize.width, cropImageSize.height))} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 text-white text-sm font-medium">
+                   <Maximize2 size={16} /> Full Page
+                 </button>
+              </div>
+              <p className="text-center text-gray-500 text-xs mt-4">Drag the corners onto the page edges. The original capture is kept.</p>
+           </div>
+        </div>
+      );
+    }
+
+    if (isRedacting) {
+      const labelSize = Math.max(redactionImageSize.width, redactionImageSize.height) * 0.018;
+      return (
+        <div className="flex flex-col h-safe-screen bg-gray-900">
+           {/* Redaction Toolbar */}
+           <div className="flex items-center justify-between px-4 py-3 pt-safe bg-gray-900 text-white border-b border-gray-800 z-10">
+              <button type="button" onClick={() => setIsRedacting(false)} className="text-gray-400 hover:text-white">Cancel</button>
+              <div className="flex items-center gap-2">
+                <EyeOff size={18} className="text-red-400" />
+                <span className="font-semibold text-sm">Redact (Page {safeIndex + 1})</span>
+              </div>
+              <button type="button" onClick={applyRedactions} disabled={isProcessing} className="text-blue-400 font-bold disabled:opacity-50">Apply</button>
+           </div>
+
+           <div className="flex-1 overflow-hidden flex items-center justify-center bg-gray-800 p-4 touch-none relative">
+              {isProcessing && (
+                <div className="absolute inset-0 z-20 bg-gray-900/70 flex items-center justify-center">
+                  <div className="flex flex-col items-center text-white">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-white mb-2"></div>
+                    <span className="text-sm font-medium">{progressMessage || 'Processing...'}</span>
+                  </div>
+                </div>
+              )}
+              <div className="relative inline-block">
+                <img src={currentPage.processedDataUrl} className="block max-w-full max-h-[70vh] shadow-2xl" alt="Page" />
+                <svg
+                  ref={redactionSvgRef}
+                  className="absolute inset-0 w-full h-full cursor-crosshair"
+                  viewBox={`0 0 ${redactionImageSize.width} ${redactionImageSize.height}`}
+                  preserveAspectRatio="none"
+                  onPointerDown={startRedaction}
+                  onPointerMove={moveRedaction}
+                  onPointerUp={endRedaction}
+                  onPointerCancel={endRedaction}
+                  style={{ touchAction: 'none' }}
+                >
+                  {[...redactionBoxes, ...(draftRedaction ? [draftRedaction] : [])].map(box => (
+                    <g key={box.id} data-redaction-id={box === draftRedaction ? undefined : box.id} className="cursor-pointer">
+                      <rect
+                        x={box.x * redactionImageSize.width}
+                        y={box.y * redactionImageSize.height}
+                        width={box.width * redactionImageSize.width}
+                        height={box.height * redactionImageSize.height}
+                        fill="rgba(0, 0, 0, 0.8)"
+                        stroke={box.kind ? '#f97316' : '#ef4444'}
+                        strokeWidth={labelSize / 6}
+                        strokeDasharray={box.kind ? `${labelSize / 2} ${labelSize / 3}` : undefined}
+                      />
+                      {box.kind && (
+                        <text
+                          x={box.x * redactionImageSize.width}
+                          y={box.y * redactionImageSize.height - labelSize / 3}
+                          fontSize={labelSize}
+                          fill="#fdba74"
+                          fontWeight="bold"
+                        >
+                          {SENSITIVE_KIND_LABELS[box.kind]}
+                        </text>
+                      )}
+                    </g>
+                  ))}
+                </svg>
+              </div>
+           </div>
+
+           <div className="bg-gray-900 border-t border-gray-800 px-4 py-4 pb-safe">
+              <div className="flex justify-center gap-4">
+                 <button type="button" onClick={autoDetectRedactions} disabled={isProcessing} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 text-white text-sm font-medium disabled:opacity-50">
+                   <ScanLine size={16} /> Find Personal Data
+                 </button>
+                 <button type="button" onClick={() => setRedactionBoxes([])} disabled={redactionBoxes.length === 0} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 text-white text-sm font-medium disabled:opacity-30">
+                   <Trash2 size={16} /> Clear
+                 </button>
+              </div>
+              <p className="text-center text-gray-500 text-xs mt-4">Drag to cover an area, tap a box to remove it. Found items are suggestions; check them before applying.</p>
+           </div>
+        </div>
+      );
+    }
+
+    if (isAnnotating) {
       return (
         <div className="flex flex-col h-safe-screen bg-gray-900">
-           {/* Highlight Toolbar */}
+           {/* Annotation Toolbar */}
            <div className="flex items-center justify-between px-4 py-3 pt-safe bg-gray-900 text-white border-b border-gray-800 z-10">
-              <button type="button" onClick={() => setIsHighlighting(false)} className="text-gray-400 hover:text-white">Cancel</button>
+              <button type="button" onClick={() => setIsAnnotating(false)} className="text-gray-400 hover:text-white">Cancel</button>
               <div className="flex items-center gap-2">
                 <PenTool size={18} className="text-yellow-400" />
-                <span className="font-semibold text-sm">Highlight (Page {safeIndex + 1})</span>
+                <span className="font-semibold text-sm">Annotate (Page {safeIndex + 1})</span>
+                <button type="button" onClick={undo} disabled={!canUndo} className="ml-2 p-1 text-gray-300 disabled:opacity-30" aria-label="Undo"><Undo2 size={18} /></button>
+                <button type="button" onClick={redo} disabled={!canRedo} className="p-1 text-gray-300 disabled:opacity-30" aria-label="Redo"><Redo2 size={18} /></button>
               </div>
-              <button type="button" onClick={saveHighlights} className="text-blue-400 font-bold">Done</button>
+              <button type="button" onClick={saveAnnotations} disabled={isProcessing} className="text-blue-400 font-bold disabled:opacity-50">Done</button>
            </div>
-           
-           {/* Canvas Area */}
-           <div className="flex-1 overflow-auto flex items-center justify-center bg-gray-800 p-4 touch-none relative">
-              <img src={cleanImageForHighlighting} className="max-w-full max-h-[80vh] shadow-2xl absolute" alt="Background" />
-              <canvas 
-                ref={editorCanvasRef}
-                onMouseDown={startDrawing}
-                onMouseMove={draw}
-                onMouseUp={stopDrawing}
-                onMouseLeave={stopDrawing}
-                onTouchStart={startDrawing}
-                onTouchMove={draw}
-                onTouchEnd={stopDrawing}
-                className="max-w-full max-h-[80vh] z-10 relative opacity-60 mix-blend-multiply" 
-                style={{ touchAction: 'none' }}
-              />
+
+           {/* Page with the annotation overlay */}
+           <div className="flex-1 overflow-hidden flex items-center justify-center bg-gray-800 p-4 touch-none">
+              <div className="relative inline-block">
+                <img src={cleanImageForAnnotating} className="block max-w-full max-h-[70vh] shadow-2xl" alt="Page" />
+                <svg
+                  ref={annotationSvgRef}
+                  className={`absolute inset-0 w-full h-full ${annotationTool === 'SELECT' ? 'cursor-default' : 'cursor-crosshair'}`}
+                  viewBox={`0 0 ${annotationImageSize.width} ${annotationImageSize.height}`}
+                  preserveAspectRatio="none"
+                  onPointerDown={startAnnotation}
+                  onPointerMove={moveAnnotation}
+                  onPointerUp={endAnnotation}
+                  onPointerCancel={endAnnotation}
+                  style={{ touchAction: 'none' }}
+                >
+                  <AnnotationShapes
+                    annotations={activeAnnotation ? [...annotationDraft, activeAnnotation] : annotationDraft}
+                    rotation={currentPage.rotation}
+                    width={annotationImageSize.width}
+                    height={annotationImageSize.height}
+                    selectedId={selectedAnnotationId}
+                  />
+                </svg>
+              </div>
            </div>
 
-           {/* Color Picker */}
-           <div className="bg-gray-900 border-t border-gray-800 px-4 py-6 pb-safe">
-              <div className="flex justify-center gap-6">
-                 {HIGHLIGHT_COLORS.map(c => (
+           <div className="bg-gray-900 border-t border-gray-800 px-4 py-4 pb-safe space-y-4">
+              {selectedAnnotation && annotationTool === 'SELECT' && (
+                <div className="flex justify-center gap-3">
+                  {(selectedAnnotation.type === 'TEXT' || selectedAnnotation.type === 'NOTE') && (
+                    <button type="button" onClick={editSelectedText} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 text-white text-sm font-medium">
+                      <Pencil size={16} /> Edit Text
+                    </button>
+                  )}
+                  <button type="button" onClick={deleteSelectedAnnotation} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 text-red-300 text-sm font-medium">
+                    <Trash2 size={16} /> Delete
+                  </button>
+                </div>
+              )}
+
+              {selectedAnnotation?.type === 'SIGNATURE' && annotationTool === 'SELECT' && (
+                <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 max-w-sm mx-auto text-xs text-gray-400">
+                  <label htmlFor="signature-size">Size</label>
+                  <input
+                    id="signature-size"
+                    type="range"
+                    min={0.05}
+                    max={0.9}
+                    step={0.01}
+                    value={selectedAnnotation.size}
+                    onPointerDown={() => { annotationAdjustRef.current = annotationDraft; }}
+                    onPointerUp={finishAdjusting}
+                    onChange={(e) => adjustSelectedAnnotation({ size: Number(e.target.value) })}
+                  />
+                  <label htmlFor="signature-angle">Turn</label>
+                  <input
+                    id="signature-angle"
+                    type="range"
+                    min={-180}
+                    max={180}
+                    step={1}
+                    value={selectedAnnotation.angle ?? 0}
+                    onPointerDown={() => { annotationAdjustRef.current = annotationDraft; }}
+                    onPointerUp={finishAdjusting}
+                    onChange={(e) => adjustSelectedAnnotation({ angle: Number(e.target.value) })}
+                  />
+                </div>
+              )}
+
+              {/* Tools */}
+              <div className="flex justify-center gap-1 overflow-x-auto no-scrollbar">
+                 {ANNOTATION_TOOLS.map(t => (
+                   <button
+                     type="button"
+                     key={t.tool}
+                     onClick={() => { setAnnotationTool(t.tool); setSelectedAnnotationId(null); }}
+                     className={`flex flex-col items-center gap-1 min-w-[48px] px-2 py-1.5 rounded-lg text-[11px] ${annotationTool === t.tool ? 'bg-white/15 text-white' : 'text-gray-400'}`}
+                   >
+                     {t.icon}
+                     {t.label}
+                   </button>
+                 ))}
+                 <button
+                   type="button"
+                   onClick={openSignatureSheet}
+                   className="flex flex-col items-center gap-1 min-w-[48px] px-2 py-1.5 rounded-lg text-[11px] text-gray-400"
+                 >
+                   <SignatureIcon size={18} />
+                   Sign
+                 </button>
+              </div>
+
+              {/* Color & Size */}
+              <div className="flex justify-center items-center gap-3">
+                 {ANNOTATION_COLORS.map(c => (
                    <button
                      type="button"
                      key={c.name}
-                     onClick={() => setHighlightColor(c.value)}
-                     className={`w-12 h-12 rounded-full border-4 ${c.bg} ${highlightColor === c.value ? 'border-white scale-110' : 'border-transparent opacity-80'} transition-all`}
+                     onClick={() => chooseAnnotationColor(c.value)}
+                     aria-label={c.name}
+                     className={`w-9 h-9 rounded-full border-4 ${c.bg} ${annotationColor === c.value ? 'border-white scale-110' : 'border-transparent opacity-80'} transition-all`}
                    />
                  ))}
+                 <div className="flex ml-2 rounded-lg bg-white/10 p-0.5">
+                   {ANNOTATION_SIZES.map((size, i) => (
+                     <button
+                       type="button"
+                       key={size.label}
+                       onClick={() => setAnnotationSize(i)}
+                       className={`w-8 h-8 rounded-md text-xs font-bold ${annotationSize === i ? 'bg-white text-gray-900' : 'text-gray-300'}`}
+                     >
+                       {size.label}
+                     </button>
+                   ))}
+                 </div>
               </div>
-              <p className="text-center text-gray-500 text-xs mt-4">Draw to highlight. Changes are saved as a layer.</p>
+              <p className="text-center text-gray-500 text-xs">Notes are kept as comments in PDF exports; everything else is drawn onto the page.</p>
            </div>
+
+           {showSignatureSheet && (
+             <div className="fixed inset-0 z-50 bg-black/50 flex flex-col justify-end">
+               <div className="bg-white rounded-t-2xl p-6 pb-safe animate-slide-up shadow-2xl max-h-[70vh] overflow-y-auto">
+                 <div className="flex justify-between items-center mb-4">
+                   <h3 className="font-bold text-xl text-gray-900">Signatures</h3>
+                   <button type="button" onClick={() => setShowSignatureSheet(false)} className="bg-gray-100 p-2 rounded-full text-gray-600"><X size={20} /></button>
+                 </div>
+                 {signatures.length === 0 ? (
+                   <p className="text-sm text-gray-500 mb-4">Draw your signature once or import a photo of it; it's kept on this device for signing any page.</p>
+                 ) : (
+                   <div className="grid grid-cols-2 gap-3 mb-4">
+                     {signatures.map(signature => (
+                       <div key={signature.id} className="relative rounded-xl border border-gray-200 hover:border-blue-400">
+                         <button type="button" onClick={() => placeSignature(signature)} className="w-full h-24 p-3 flex items-center justify-center">
+                           <img src={signature.dataUrl} className="max-w-full max-h-full object-contain" alt="Signature" />
+                         </button>
+                         <button type="button" onClick={() => removeSignature(signature.id)} className="absolute top-1 right-1 p-1.5 text-gray-400 hover:text-red-600" aria-label="Delete signature">
+                           <Trash2 size={14} />
+                         </button>
+                       </div>
+                     ))}
+                   </div>
+                 )}
+                 <div className="flex gap-3">
+                   <Button variant="secondary" className="flex-1" onClick={() => setShowSignaturePad(true)} icon={<PenTool size={18} />}>Draw</Button>
+                   <Button variant="secondary" className="flex-1" onClick={() => signatureInputRef.current?.click()} icon={<FileUp size={18} />}>Import</Button>
+                 </div>
+                 <input
+                   ref={signatureInputRef}
+                   type="file"
+                   accept="image/*"
+                   className="hidden"
+                   onChange={(e) => {
+                     handleSignatureImport(e.target.files?.[0]);
+                     e.target.value = '';
+                   }}
+                 />
+               </div>
+             </div>
+           )}
+
+           {showSignaturePad && <SignaturePad onSave={addSignature} onCancel={() => setShowSignaturePad(false)} />}
         </div>
       )
     }
@@ -758,7 +2545,11 @@ const App: React.FC = () => {
       <div className="flex flex-col h-safe-screen bg-gray-50">
         <div className="flex items-center justify-between px-4 py-3 pt-safe bg-white border-b border-gray-200 shadow-sm z-10">
           <button type="button" onClick={() => setView(AppView.DASHBOARD)} className="text-gray-600">Cancel</button>
-          <h2 className="font-semibold text-gray-800">Edit Scan</h2>
+          <div className="flex items-center gap-1">
+            <button type="button" onClick={undo} disabled={!canUndo} className="p-2 text-gray-600 disabled:opacity-30" aria-label="Undo" title="Undo (Ctrl+Z)"><Undo2 size={18} /></button>
+            <h2 className="font-semibold text-gray-800">Edit Scan</h2>
+            <button type="button" onClick={redo} disabled={!canRedo} className="p-2 text-gray-600 disabled:opacity-30" aria-label="Redo" title="Redo (Ctrl+Shift+Z)"><Redo2 size={18} /></button>
+          </div>
           <button type="button" onClick={saveDocument} className="text-blue-600 font-medium">Save</button>
         </div>
 
@@ -767,12 +2558,48 @@ const App: React.FC = () => {
             <div className="absolute inset-0 z-50 bg-white/80 flex items-center justify-center backdrop-blur-sm">
               <div className="flex flex-col items-center">
                 <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-2"></div>
-                <span className="text-sm font-medium text-gray-600">Processing...</span>
+                <span className="text-sm font-medium text-gray-600">{progressMessage || 'Processing...'}</span>
               </div>
             </div>
           )}
           
-          {/* Main Image Viewer with Navigation */}
+          {showPageGrid ? (
+            <div className="w-full self-start grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {currentDoc.pages.map((page, index) => (
+                <div
+                  key={page.id}
+                  draggable
+                  onDragStart={() => setDraggedPageIndex(index)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggedPageIndex !== null) movePage(draggedPageIndex, index);
+                    setDraggedPageIndex(null);
+                  }}
+                  onDragEnd={() => setDraggedPageIndex(null)}
+                  className={`bg-white rounded-xl shadow-sm border overflow-hidden transition-all ${index === safeIndex ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'} ${draggedPageIndex === index ? 'opacity-40' : ''}`}
+                >
+                  <button type="button" onClick={() => { setEditorPageIndex(index); setShowPageGrid(false); }} className="block w-full aspect-[3/4] bg-gray-100 relative">
+                    <img src={page.processedDataUrl} className="w-full h-full object-contain" alt={`Page ${index + 1}`} />
+                    <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded">{index + 1}</span>
+                  </button>
+                  <div className="flex justify-between items-center px-1 py-1 border-t border-gray-100 text-gray-500">
+                    <button type="button" onClick={() => movePage(index, index - 1)} disabled={index === 0} className="p-1 disabled:opacity-30" aria-label="Move page left"><ChevronLeft size={16} /></button>
+                    <button type="button" onClick={() => duplicatePage(index)} className="p-1 hover:text-blue-600" aria-label="Duplicate page"><Copy size={16} /></button>
+                    <button type="button" onClick={() => addPages(index + 1)} className="p-1 hover:text-blue-600" aria-label="Insert pages after"><Plus size={16} /></button>
+                    <button type="button" onClick={() => splitAfterPage(index)} disabled={index === pageCount - 1} className="p-1 hover:text-blue-600 disabled:opacity-30" aria-label="Split after this page"><Scissors size={16} /></button>
+                    <button type="button" onClick={() => deletePage(index)} disabled={pageCount <= 1} className="p-1 hover:text-red-600 disabled:opacity-30" aria-label="Delete page"><Trash2 size={16} /></button>
+                    <button type="button" onClick={() => movePage(index, index + 1)} disabled={index === pageCount - 1} className="p-1 disabled:opacity-30" aria-label="Move page right"><ChevronRight size={16} /></button>
+                  </div>
+                </div>
+              ))}
+              <button type="button" onClick={() => addPages(pageCount)} className="aspect-[3/4] rounded-xl border-2 border-dashed border-gray-300 flex flex-col items-center justify-center text-gray-500 hover:border-blue-400 hover:text-blue-600">
+                <Camera size={28} className="mb-2" />
+                <span className="text-sm font-medium">Add Pages</span>
+              </button>
+            </div>
+          ) : (
+          /* Main Image Viewer with Navigation */
           <div className="relative max-w-full">
             <div className="bg-white p-2 shadow-xl rounded-sm">
                <img src={currentPage.processedDataUrl} className="max-h-[60vh] object-contain" alt="Scan" />
@@ -805,8 +2632,15 @@ const App: React.FC = () => {
               </>
             )}
           </div>
+          )}
         </div>
 
+        {showPageGrid ? (
+          <div className="bg-white border-t border-gray-200 pb-safe px-4 py-4 flex items-center justify-between">
+            <span className="text-sm text-gray-500">{pageCount} {pageCount === 1 ? 'page' : 'pages'} · drag or use the arrows to reorder</span>
+            <Button variant="primary" onClick={() => setShowPageGrid(false)}>Done</Button>
+          </div>
+        ) : (
         <div className="bg-white border-t border-gray-200 pb-safe">
           <div className="flex overflow-x-auto no-scrollbar p-4 gap-4">
             <button type="button" onClick={() => applyFilter(FilterType.ORIGINAL)} className={`flex flex-col items-center min-w-[70px] ${currentPage.filter === FilterType.ORIGINAL ? 'opacity-100' : 'opacity-60'}`}>
@@ -836,11 +2670,122 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex justify-around px-4 pb-6 pt-2 border-t border-gray-100">
+             <Button variant="ghost" onClick={prepareCropping} icon={<Crop size={18} />}>Crop</Button>
              <Button variant="ghost" onClick={rotatePage} icon={<Maximize2 size={18} />}>Rotate</Button>
-             <Button variant="ghost" onClick={prepareHighlighting} icon={<PenTool size={18} />}>Highlight</Button>
+             <Button variant="ghost" onClick={prepareAnnotating} icon={<PenTool size={18} />}>Annotate</Button>
+             <Button variant="ghost" onClick={prepareRedacting} icon={<EyeOff size={18} />}>Redact</Button>
+             <Button variant="ghost" onClick={() => setShowPageGrid(true)} icon={<Layers size={18} />}>Pages</Button>
              <Button variant="primary" onClick={triggerAIAnalysis} icon={<Wand2 size={18} />}>AI Identify</Button>
           </div>
         </div>
+        )}
+      </div>
+    );
+  };
+
+  const parseAmount = (value: string) => value === '' ? undefined : parseFloat(value);
+
+  const renderExpenseCard = (doc: DocumentData) => {
+    const inputClass = "w-full p-2 rounded-lg border border-gray-200 bg-gray-50 text-gray-800 text-sm";
+
+    if (expenseDraft) {
+      const field = (label: string, key: 'vendor' | 'date' | 'currency' | 'invoiceNumber', type = 'text') => (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+          <input type={type} value={expenseDraft[key]} onChange={(e) => setExpenseDraft({ ...expenseDraft, [key]: e.target.value })} className={inputClass} />
+        </div>
+      );
+      const amount = (label: string, key: 'subtotal' | 'tax' | 'total') => (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+          <input type="number" step="0.01" value={expenseDraft[key] ?? ''} onChange={(e) => setExpenseDraft({ ...expenseDraft, [key]: parseAmount(e.target.value) })} className={inputClass} />
+        </div>
+      );
+
+      return (
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-gray-900 flex items-center gap-2"><Receipt size={18} /> Expense Fields</h3>
+            <div className="flex gap-3 text-sm">
+              <button type="button" onClick={() => setExpenseDraft(null)} className="text-gray-500">Cancel</button>
+              <button type="button" onClick={saveExpenseDraft} className="text-blue-600 font-semibold">Save</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {field('Vendor', 'vendor')}
+            {field('Date', 'date', 'date')}
+            {field('Invoice No.', 'invoiceNumber')}
+            {field('Currency', 'currency')}
+            {amount('Subtotal', 'subtotal')}
+            {amount('Tax', 'tax')}
+            {amount('Total', 'total')}
+          </div>
+          <div className="space-y-2">
+            <span className="block text-xs font-medium text-gray-500">Line Items</span>
+            {expenseDraft.lineItems.map((item, i) => (
+              <div key={i} className="flex gap-2 items-center">
+                <input type="text" placeholder="Description" value={item.description} onChange={(e) => updateExpenseItem(i, { description: e.target.value })} className={`${inputClass} flex-1`} />
+                <input type="number" placeholder="Qty" value={item.quantity ?? ''} onChange={(e) => updateExpenseItem(i, { quantity: parseAmount(e.target.value) })} className={`${inputClass} w-14`} />
+                <input type="number" step="0.01" placeholder="Unit" value={item.unitPrice ?? ''} onChange={(e) => updateExpenseItem(i, { unitPrice: parseAmount(e.target.value) })} className={`${inputClass} w-20`} />
+                <input type="number" step="0.01" placeholder="Amount" value={item.amount ?? ''} onChange={(e) => updateExpenseItem(i, { amount: parseAmount(e.target.value) })} className={`${inputClass} w-20`} />
+                <button type="button" onClick={() => setExpenseDraft({ ...expenseDraft, lineItems: expenseDraft.lineItems.filter((_, j) => j !== i) })} className="text-gray-400 hover:text-red-600 p-1" aria-label="Remove item">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button type="button" onClick={() => setExpenseDraft({ ...expenseDraft, lineItems: [...expenseDraft.lineItems, { description: '' }] })} className="flex items-center gap-1 text-sm text-blue-600 font-medium">
+              <Plus size={16} /> Add item
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!doc.expense) {
+      return (
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-gray-600 text-sm">
+            <Receipt size={18} />
+            <span>Receipt or invoice?</span>
+          </div>
+          <div className="flex gap-3 text-sm">
+            <button type="button" onClick={() => setExpenseDraft(EMPTY_EXPENSE)} className="text-gray-500">Enter manually</button>
+            <button type="button" onClick={triggerExpenseExtraction} className="text-blue-600 font-semibold">Extract fields</button>
+          </div>
+        </div>
+      );
+    }
+
+    const expense = doc.expense;
+    const money = (value?: number) => value === undefined ? '—' : `${value.toFixed(2)} ${expense.currency}`.trim();
+    return (
+      <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-bold text-gray-900 flex items-center gap-2"><Receipt size={18} /> {expense.vendor || 'Expense'}</h3>
+          <button type="button" onClick={() => setExpenseDraft(expense)} className="text-gray-500 hover:bg-gray-100 p-2 rounded-full" aria-label="Edit fields">
+            <Pencil size={16} />
+          </button>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <dt className="text-gray-500">Date</dt><dd className="text-gray-900 text-right">{expense.date || '—'}</dd>
+          <dt className="text-gray-500">Invoice No.</dt><dd className="text-gray-900 text-right">{expense.invoiceNumber || '—'}</dd>
+          <dt className="text-gray-500">Subtotal</dt><dd className="text-gray-900 text-right">{money(expense.subtotal)}</dd>
+          <dt className="text-gray-500">Tax</dt><dd className="text-gray-900 text-right">{money(expense.tax)}</dd>
+          <dt className="text-gray-900 font-semibold">Total</dt><dd className="text-gray-900 font-semibold text-right">{money(expense.total)}</dd>
+        </dl>
+        {expense.lineItems.length > 0 && (
+          <ul className="mt-3 pt-3 border-t border-gray-100 space-y-1 text-sm">
+            {expense.lineItems.map((item, i) => (
+              <li key={i} className="flex justify-between gap-2">
+                <span className="text-gray-700 truncate">
+                  {item.quantity !== undefined ? `${item.quantity} × ` : ''}{item.description}
+                  {item.unitPrice !== undefined && <span className="text-gray-400"> @ {money(item.unitPrice)}</span>}
+                </span>
+                <span className="text-gray-900">{money(item.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     );
   };
@@ -852,11 +2797,30 @@ const App: React.FC = () => {
          {/* Export / Share Sheet */}
          {showExportSheet && (
            <div className="absolute inset-0 z-50 bg-black/50 flex flex-col justify-end">
-             <div className="bg-white rounded-t-2xl p-6 pb-safe animate-slide-up shadow-2xl">
+             <div className="bg-white rounded-t-2xl p-6 pb-safe animate-slide-up shadow-2xl max-h-[90vh] overflow-y-auto">
                 <div className="flex justify-between items-center mb-6">
                   <h3 className="font-bold text-xl text-gray-900">Export Document</h3>
                   <button type="button" onClick={() => setShowExportSheet(false)} className="bg-gray-100 p-2 rounded-full text-gray-600"><X size={20} /></button>
                 </div>
+
+                {isShareSupported && (
+                  <div className="bg-gray-100 p-1 rounded-xl flex mb-4">
+                    <button
+                      type="button"
+                      onClick={() => setExportAction('DOWNLOAD')}
+                      className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold transition-all ${exportAction === 'DOWNLOAD' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
+                    >
+                      <Download size={16} /> Save to device
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setExportAction('SHARE')}
+                      className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold transition-all ${exportAction === 'SHARE' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
+                    >
+                      <Share size={16} /> Share
+                    </button>
+                  </div>
+                )}
                 
                 <div className="space-y-4">
                   {/* PDF Option */}
@@ -869,6 +2833,152 @@ const App: React.FC = () => {
                       <span className="text-sm text-gray-500">Universal format (Best for printing)</span>
                     </div>
                   </button>
+                  <label className="flex items-center justify-between px-4 -mt-2 text-sm text-gray-600">
+                    <span>Searchable text layer (OCR)</span>
+                    <input
+                      type="checkbox"
+                      checked={searchablePdf}
+                      onChange={(e) => setSearchablePdf(e.target.checked)}
+                      className="w-5 h-5 accent-blue-600"
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setShowPdfSettings(!showPdfSettings)}
+                    className="w-full flex items-center justify-between px-4 -mt-2 text-sm text-gray-600"
+                  >
+                    <span className="flex items-center gap-2"><SlidersHorizontal size={16} /> Page setup</span>
+                    <span className="text-gray-400">
+                      {pdfSettings.paperSize === 'FIT' ? 'Fit to image' : pdfSettings.paperSize === 'A4' ? 'A4' : pdfSettings.paperSize === 'LETTER' ? 'Letter' : 'Legal'} · {pdfSettings.margin} mm
+                    </span>
+                  </button>
+                  <label className="flex items-center justify-between px-4 -mt-2 text-sm text-gray-600">
+                    <span className="flex items-center gap-2"><Lock size={16} /> Password protect</span>
+                    <input
+                      type="checkbox"
+                      checked={!!pdfProtection}
+                      onChange={(e) => setPdfProtection(e.target.checked ? { password: '', allowPrinting: true, allowCopying: false } : null)}
+                      className="w-5 h-5 accent-blue-600"
+                    />
+                  </label>
+                  {pdfProtection && (
+                    <div className="px-4 space-y-3 text-sm text-gray-600">
+                      <input
+                        type="password"
+                        value={pdfProtection.password}
+                        onChange={(e) => setPdfProtection({ ...pdfProtection, password: e.target.value })}
+                        placeholder="Password to open the PDF"
+                        autoComplete="new-password"
+                        className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50"
+                      />
+                      <label className="flex items-center justify-between">
+                        <span>Allow printing</span>
+                        <input
+                          type="checkbox"
+                          checked={pdfProtection.allowPrinting}
+                          onChange={(e) => setPdfProtection({ ...pdfProtection, allowPrinting: e.target.checked })}
+                          className="w-5 h-5 accent-blue-600"
+                        />
+                      </label>
+                      <label className="flex items-center justify-between">
+                        <span>Allow copying text</span>
+                        <input
+                          type="checkbox"
+                          checked={pdfProtection.allowCopying}
+                          onChange={(e) => setPdfProtection({ ...pdfProtection, allowCopying: e.target.checked })}
+                          className="w-5 h-5 accent-blue-600"
+                        />
+                      </label>
+                      {!isSupportedPdfPassword(pdfProtection.password) && (
+                        <p className="text-xs text-red-600">The password contains characters PDF passwords can't use.</p>
+                      )}
+                      <p className="text-xs text-gray-400">The PDF is encrypted with AES-256, so it's only as strong as the password: use a long one. The password isn't stored, and without it the PDF can't be opened.</p>
+                    </div>
+                  )}
+                  {showPdfSettings && (
+                    <div className="grid grid-cols-2 gap-3 px-4 text-sm text-gray-600">
+                      <label className="space-y-1">
+                        <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Paper</span>
+                        <select value={pdfSettings.paperSize} onChange={(e) => setPdfSettings({ ...pdfSettings, paperSize: e.target.value as PaperSize })} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50">
+                          <option value="A4">A4</option>
+                          <option value="LETTER">Letter</option>
+                          <option value="LEGAL">Legal</option>
+                          <option value="FIT">Fit to image</option>
+                        </select>
+                      </label>
+                      <label className="space-y-1">
+                        <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Orientation</span>
+                        <select value={pdfSettings.orientation} onChange={(e) => setPdfSettings({ ...pdfSettings, orientation: e.target.value as PageOrientation })} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50">
+                          <option value="AUTO">Auto (per page)</option>
+                          <option value="PORTRAIT">Portrait</option>
+                          <option value="LANDSCAPE">Landscape</option>
+                        </select>
+                      </label>
+                      <label className="space-y-1">
+                        <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Margins</span>
+                        <select value={pdfSettings.margin} onChange={(e) => setPdfSettings({ ...pdfSettings, margin: Number(e.target.value) })} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50">
+                          <option value={0}>None</option>
+                          <option value={5}>Narrow (5 mm)</option>
+                          <option value={10}>Normal (10 mm)</option>
+                          <option value={20}>Wide (20 mm)</option>
+                        </select>
+                      </label>
+                      <label className="space-y-1">
+                        <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Image quality</span>
+                        <select value={pdfSettings.imageQuality} onChange={(e) => setPdfSettings({ ...pdfSettings, imageQuality: Number(e.target.value) })} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50">
+                          <option value={1}>As scanned</option>
+                          <option value={0.85}>High</option>
+                          <option value={0.7}>Medium</option>
+                          <option value={0.5}>Low</option>
+                        </select>
+                      </label>
+                      <label className="space-y-1 col-span-2">
+                        <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Resolution</span>
+                        <select value={pdfSettings.dpi} onChange={(e) => setPdfSettings({ ...pdfSettings, dpi: Number(e.target.value) })} className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50">
+                          <option value={0}>Full resolution</option>
+                          <option value={300}>300 dpi (print)</option>
+                          <option value={200}>200 dpi</option>
+                          <option value={150}>150 dpi (email)</option>
+                          <option value={100}>100 dpi (smallest)</option>
+                        </select>
+                      </label>
+                      <label className="col-span-2 flex items-center justify-between">
+                        <span>
+                          Archival (PDF/A)
+                          <span className="block text-xs text-gray-400">
+                            {pdfProtection ? 'Not available for password-protected files' : 'For records retention; sticky notes are left out'}
+                          </span>
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={pdfSettings.archival && !pdfProtection}
+                          disabled={!!pdfProtection}
+                          onChange={(e) => setPdfSettings({ ...pdfSettings, archival: e.target.checked })}
+                          className="w-5 h-5 accent-blue-600"
+                        />
+                      </label>
+                      <label className="col-span-2 flex items-center justify-between">
+                        <span>Footer</span>
+                        <input
+                          type="checkbox"
+                          checked={pdfSettings.footer}
+                          onChange={(e) => setPdfSettings({ ...pdfSettings, footer: e.target.checked })}
+                          className="w-5 h-5 accent-blue-600"
+                        />
+                      </label>
+                      {pdfSettings.footer && (
+                        <label className="col-span-2 space-y-1">
+                          <input
+                            type="text"
+                            value={pdfSettings.footerTemplate}
+                            onChange={(e) => setPdfSettings({ ...pdfSettings, footerTemplate: e.target.value })}
+                            className="w-full p-2 rounded-lg border border-gray-200 bg-gray-50"
+                          />
+                          <span className="block text-xs text-gray-400">{'{page}'}, {'{pages}'}, {'{title}'} and {'{date}'} are filled in</span>
+                        </label>
+                      )}
+                    </div>
+                  )}
                   
                   {/* Image Options */}
                   <div className="bg-gray-50 rounded-xl p-4">
@@ -904,6 +3014,19 @@ const App: React.FC = () => {
                       <span className="text-sm text-gray-500">Only AI summary & text</span>
                     </div>
                   </button>
+
+                  {/* Expense CSV Option */}
+                  {currentDoc.expense && (
+                    <button type="button" onClick={() => handleExport('csv')} className="w-full flex items-center p-4 bg-gray-50 rounded-xl hover:bg-emerald-50 transition-colors group">
+                      <div className="bg-emerald-100 text-emerald-700 p-3 rounded-lg mr-4 group-hover:bg-emerald-200">
+                        <Table size={24} />
+                      </div>
+                      <div className="text-left">
+                        <span className="block font-semibold text-gray-900">Expense Data (.csv)</span>
+                        <span className="text-sm text-gray-500">Vendor, totals & line items</span>
+                      </div>
+                    </button>
+                  )}
                 </div>
              </div>
            </div>
@@ -942,7 +3065,7 @@ const App: React.FC = () => {
                         {LANGUAGES.map(l => <option key={`target-${l}`} value={l}>{l}</option>)}
                      </select>
                    </div>
-                   <p className="text-xs text-gray-500 text-center">Using Cloud AI for free translation.</p>
+                   <p className="text-xs text-gray-500 text-center">Using {getAIProvider().label} for translation.</p>
                 </div>
                 <div className="p-6 bg-gray-50">
                   <Button variant="primary" className="w-full" onClick={triggerTranslation} disabled={isProcessing}>
@@ -971,6 +3094,14 @@ const App: React.FC = () => {
              <button type="button" onClick={(e) => initiateSingleDelete(currentDoc.id, e)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors" title="Delete">
                <Trash2 size={20} />
              </button>
+             <button type="button" onClick={() => { setEditorPageIndex(0); setShowPageGrid(true); resetHistory(); setView(AppView.EDITOR); }} className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors" title="Edit pages">
+               <Layers size={20} />
+             </button>
+             {isShareSupported && (
+               <button type="button" onClick={() => handleExport('pdf', 'jpeg', 'SHARE')} className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors" title="Share PDF">
+                 <Share size={20} />
+               </button>
+             )}
              <button type="button" onClick={() => setShowExportSheet(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 shadow-md shadow-blue-600/20 active:scale-95 transition-all">
                <Download size={18} />
                <span className="font-medium text-sm">Save / Export</span>
@@ -981,12 +3112,75 @@ const App: React.FC = () => {
          <div className="flex-1 overflow-y-auto p-4 no-print space-y-4">
             {/* Document Info Card */}
             <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
-               <h1 className="text-2xl font-bold text-gray-900 mb-1">{currentDoc.title}</h1>
+               <div className="flex items-start justify-between gap-2 mb-1">
+                 <h1 className="text-2xl font-bold text-gray-900">{currentDoc.title}</h1>
+                 <button type="button" onClick={renameDocument} className="text-gray-500 hover:bg-gray-100 p-2 rounded-full flex-shrink-0" aria-label="Rename document">
+                   <Pencil size={16} />
+                 </button>
+               </div>
+               {currentDoc.titleNeedsReview && (
+                 <div className="flex items-start gap-2 p-3 mb-3 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                   <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+                   <div className="flex-1">
+                     <p>This title was generated before parts of the document were blacked out and may quote them.</p>
+                     <div className="flex gap-3 mt-1 font-semibold">
+                       <button type="button" onClick={renameDocument}>Rename</button>
+                       <button type="button" onClick={() => updateCurrentDocument({ titleNeedsReview: false })}>Keep title</button>
+                     </div>
+                   </div>
+                 </div>
+               )}
                <div className="flex items-center gap-2 text-sm text-gray-500 mb-4">
                  <span className="bg-gray-100 px-2 py-0.5 rounded text-xs uppercase tracking-wide font-medium">{currentDoc.category}</span>
                  <span>•</span>
                  <span>{formatDate(currentDoc.createdAt)}</span>
                </div>
+
+               {/* Organization */}
+               <div className="space-y-3 mb-4">
+                 <label className="flex items-center gap-2 text-sm text-gray-600">
+                   <FolderIcon size={16} className="text-gray-400 flex-shrink-0" />
+                   <select
+                     value={currentDoc.folderId ?? ''}
+                     onChange={(e) => updateCurrentDocument({ folderId: e.target.value || null })}
+                     className="flex-1 p-2 rounded-lg border border-gray-200 bg-gray-50 text-gray-800"
+                   >
+                     <option value="">Library (no folder)</option>
+                     {folderTree.map(({ folder, depth }) => (
+                       <option key={folder.id} value={folder.id}>{'\u00A0\u00A0'.repeat(depth)}{folder.name}</option>
+                     ))}
+                   </select>
+                 </label>
+                 <div className="flex flex-wrap items-center gap-2">
+                   <Tag size={16} className="text-gray-400" />
+                   {(currentDoc.tags || []).map(tag => (
+                     <span key={tag} className="flex items-center gap-1 text-xs bg-blue-50 text-blue-700 pl-2 pr-1 py-0.5 rounded-full">
+                       {tag}
+                       <button type="button" onClick={() => removeTag(tag)} className="p-0.5 hover:text-blue-900" aria-label={`Remove tag ${tag}`}><X size={12} /></button>
+                     </span>
+                   ))}
+                   <form onSubmit={(e) => { e.preventDefault(); addTag(tagDraft); setTagDraft(''); }} className="flex-1 min-w-[6rem]">
+                     <input
+                       type="text"
+                       value={tagDraft}
+                       onChange={(e) => setTagDraft(e.target.value)}
+                       placeholder="Add tag"
+                       className="w-full px-2 py-1 text-xs rounded-lg border border-gray-200 bg-gray-50"
+                     />
+                   </form>
+                 </div>
+                 {currentDoc.suggestedTags && currentDoc.suggestedTags.length > 0 && (
+                   <div className="flex flex-wrap items-center gap-2 text-xs">
+                     <span className="flex items-center gap-1 text-gray-500"><Wand2 size={12} /> Suggested:</span>
+                     {currentDoc.suggestedTags.map(tag => (
+                       <span key={tag} className="flex items-center border border-dashed border-blue-300 text-blue-700 rounded-full">
+                         <button type="button" onClick={() => addTag(tag)} className="flex items-center gap-0.5 pl-2 py-0.5" aria-label={`Add tag ${tag}`}><Plus size={12} /> {tag}</button>
+                         <button type="button" onClick={() => dismissSuggestedTag(tag)} className="px-1 py-0.5 text-blue-400 hover:text-blue-700" aria-label={`Dismiss ${tag}`}><X size={12} /></button>
+                       </span>
+                     ))}
+                   </div>
+                 )}
+               </div>
                
                {/* AI Section */}
                {currentDoc.aiSummary ? (
@@ -1032,6 +3226,9 @@ const App: React.FC = () => {
                )}
             </div>
 
+            {/* Expense Fields */}
+            {renderExpenseCard(currentDoc)}
+
             {/* Pages Feed */}
             <div className="space-y-4">
               {currentDoc.pages.map((page, index) => (
@@ -1052,7 +3249,7 @@ const App: React.FC = () => {
             <div className="absolute inset-0 z-[60] bg-white/80 flex items-center justify-center backdrop-blur-sm">
               <div className="flex flex-col items-center p-6 bg-white rounded-2xl shadow-xl">
                 <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-3"></div>
-                <span className="text-sm font-medium text-gray-700">Generating File...</span>
+                <span className="text-sm font-medium text-gray-700">{progressMessage || 'Generating File...'}</span>
               </div>
             </div>
           )}
@@ -1060,12 +3257,241 @@ const App: React.FC = () => {
     );
   };
 
+  const renderSettings = () => (
+    <div className="min-h-screen bg-gray-50 pb-safe">
+      <div className="bg-white border-b border-gray-200 px-4 py-3 pt-safe flex items-center justify-between sticky top-0 z-10 shadow-sm">
+        <button type="button" onClick={() => setView(AppView.DASHBOARD)} className="p-2 -ml-2 hover:bg-gray-100 rounded-full text-gray-600">
+          <ArrowLeft size={24} />
+        </button>
+        <h2 className="font-semibold text-gray-800">Settings</h2>
+        <button
+          type="button"
+          onClick={() => { saveAISettings(aiSettingsDraft); setView(AppView.DASHBOARD); }}
+          className="text-blue-600 font-medium"
+        >
+          Save
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <h3 className="font-bold text-gray-900">AI Provider</h3>
+          <p className="text-xs text-gray-500">Text recognition always runs on-device. The provider adds titles, categories, summaries and translation.</p>
+          {AI_PROVIDER_OPTIONS.map(option => (
+            <label
+              key={option.id}
+              className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${aiSettingsDraft.provider === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+            >
+              <input
+                type="radio"
+                name="ai-provider"
+                checked={aiSettingsDraft.provider === option.id}
+                onChange={() => setAISettingsDraft({ ...aiSettingsDraft, provider: option.id })}
+                className="mt-1 accent-blue-600"
+              />
+              <div>
+                <span className="block font-semibold text-gray-900 text-sm">{option.label}</span>
+                <span className="text-xs text-gray-500">{option.description}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {aiSettingsDraft.provider !== 'offline' && (
+          <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+            {aiSettingsDraft.provider === 'openai' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Endpoint</label>
+                <input
+                  type="url"
+                  value={aiSettingsDraft.endpoint}
+                  onChange={(e) => setAISettingsDraft({ ...aiSettingsDraft, endpoint: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full p-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-800"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+              <input
+                type="text"
+                value={aiSettingsDraft.model}
+                onChange={(e) => setAISettingsDraft({ ...aiSettingsDraft, model: e.target.value })}
+                placeholder={aiSettingsDraft.provider === 'gemini' ? 'gemini-2.5-flash' : 'gpt-4o-mini'}
+                className="w-full p-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-800"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">API Key</label>
+              <input
+                type="password"
+                value={aiSettingsDraft.apiKey}
+                onChange={(e) => setAISettingsDraft({ ...aiSettingsDraft, apiKey: e.target.value })}
+                placeholder={aiSettingsDraft.provider === 'gemini' ? 'Uses the built-in key if empty' : 'Optional'}
+                autoComplete="off"
+                className="w-full p-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-800"
+              />
+              <p className="text-xs text-gray-400 mt-1">Stored only on this device.</p>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <h3 className="font-bold text-gray-900">Backup</h3>
+          <p className="text-xs text-gray-500">Save every document, folder and signature to one file, so clearing browser data or switching devices loses nothing.</p>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={handleBackup} icon={<Archive size={16} />} className="flex-1">Back up</Button>
+            <Button variant="secondary" onClick={() => backupInputRef.current?.click()} icon={<ArchiveRestore size={16} />} className="flex-1">Restore</Button>
+          </div>
+          <input
+            ref={backupInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleRestoreFile(file);
+            }}
+          />
+        </div>
+
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+          <div>
+            <h3 className="font-bold text-gray-900">Encryption</h3>
+            <p className="text-xs text-gray-500">
+              {isVaultOn
+                ? 'Documents, page images and text are encrypted on this device and need your passphrase to open.'
+                : 'Encrypt documents, page images and text on this device with a passphrase. There is no way to recover a forgotten passphrase.'}
+            </p>
+          </div>
+          {isVaultOn && (
+            <>
+              <div className="flex items-center gap-3">
+                <label className="flex-1">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">Lock automatically</span>
+                  <select
+                    value={autoLockMinutes}
+                    onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+                    className="w-full p-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-800"
+                  >
+                    {AUTO_LOCK_OPTIONS.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+                  </select>
+                </label>
+                <Button variant="secondary" onClick={lockLibrary} icon={<Lock size={16} />} className="self-end">Lock now</Button>
+              </div>
+              <input
+                type="password"
+                value={vaultForm.current}
+                onChange={(e) => setVaultForm({ ...vaultForm, current: e.target.value })}
+                placeholder="Current passphrase"
+                autoComplete="current-password"
+                className="w-full p-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-800"
+              />
+            </>
+          )}
+          <input
+            type="password"
+            value={vaultForm.next}
+            onChange={(e) => setVaultForm({ ...vaultForm, next: e.target.value })}
+            placeholder={isVaultOn ? 'New passphrase' : 'Passphrase'}
+            autoComplete="new-password"
+            className="w-full p-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-800"
+          />
+          <input
+            type="password"
+            value={vaultForm.confirm}
+            onChange={(e) => setVaultForm({ ...vaultForm, confirm: e.target.value })}
+            placeholder="Repeat passphrase"
+            autoComplete="new-password"
+            className="w-full p-3 rounded-xl border border-gray-200 bg-gray-50 text-gray-800"
+          />
+          {isVaultOn ? (
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={changePassphrase} disabled={!vaultForm.current || !vaultForm.next} className="flex-1">Change passphrase</Button>
+              <Button variant="danger" onClick={turnOffVault} disabled={!vaultForm.current} className="flex-1">Turn off</Button>
+            </div>
+          ) : (
+            <Button onClick={turnOnVault} disabled={!vaultForm.next} icon={<Lock size={16} />} className="w-full">Encrypt library</Button>
+          )}
+        </div>
+      </div>
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-50 bg-white/60 flex flex-col items-center justify-center backdrop-blur-sm">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          {progressMessage && <span className="mt-3 text-sm font-medium text-gray-700">{progressMessage}</span>}
+        </div>
+      )}
+
+      {pendingRestore && (
+        <div className="fixed inset-0 z-[60] bg-black/60 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm p-5">
+            <h3 className="font-bold text-lg text-gray-900 mb-1">Documents already in your library</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              {pendingRestore.conflicts.length} of the {pendingRestore.manifest.documents.length} documents in this backup are already here. Choose what happens to each; the others are restored either way.
+            </p>
+            <div className="flex items-center gap-2 mb-2 text-xs text-gray-500">
+              <span>All:</span>
+              {RESTORE_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.mode}
+                  type="button"
+                  onClick={() => setRestoreModes(pendingRestore.conflicts.map(c => c.id), option.mode)}
+                  className="px-2 py-1 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <ul className="max-h-56 overflow-y-auto mb-3 divide-y divide-gray-100 text-sm">
+              {pendingRestore.conflicts.map(conflict => (
+                <li key={conflict.id} className="py-2 flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <span className="block font-medium text-gray-900 truncate">{conflict.title}</span>
+                    {conflict.existingTitle !== conflict.title && (
+                      <span className="block text-xs text-gray-400 truncate">In library as "{conflict.existingTitle}"</span>
+                    )}
+                  </div>
+                  <select
+                    value={restorePlan.documents[conflict.id] ?? 'SKIP'}
+                    onChange={(e) => setRestoreModes([conflict.id], e.target.value as RestoreMode)}
+                    className="p-1.5 rounded-lg border border-gray-200 bg-gray-50 text-xs text-gray-800"
+                    aria-label={`What to do with "${conflict.title}"`}
+                  >
+                    {RESTORE_MODE_OPTIONS.map(option => <option key={option.mode} value={option.mode}>{option.label}</option>)}
+                  </select>
+                </li>
+              ))}
+            </ul>
+            <label className="flex items-center justify-between gap-3 mb-4 text-sm text-gray-600">
+              <span>Also replace folders and signatures with the backup's versions</span>
+              <input
+                type="checkbox"
+                checked={restorePlan.replaceExisting}
+                onChange={(e) => setRestorePlan(prev => ({ ...prev, replaceExisting: e.target.checked }))}
+                className="w-5 h-5 accent-blue-600 flex-shrink-0"
+              />
+            </label>
+            <div className="grid gap-2">
+              <Button variant="primary" onClick={() => runRestore(pendingRestore, restorePlan)}>Restore</Button>
+              <Button variant="ghost" onClick={() => setPendingRestore(null)}>Cancel</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  if (isLocked) return <LockScreen onUnlock={handleUnlock} />;
+
   return (
     <div className="font-sans antialiased text-gray-900">
       {view === AppView.DASHBOARD && renderDashboard()}
       {view === AppView.CAMERA && renderCamera()}
       {view === AppView.EDITOR && renderEditor()}
       {view === AppView.DETAILS && renderDetails()}
+      {view === AppView.SETTINGS && renderSettings()}
       
       {/* GLOBAL DELETE CONFIRMATION MODAL */}
       {showDeleteConfirm && (
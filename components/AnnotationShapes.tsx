@@ -0,0 +1,115 @@
+import React from 'react';
+import { Annotation, Point } from '../types';
+import { ANNOTATION_FONT, TEXT_LINE_HEIGHT, arrowHead, arrowHeadLength, toDisplayPoint } from '../services/annotationUtils';
+
+interface AnnotationShapesProps {
+  annotations: Annotation[];
+  rotation: number;
+  width: number; // Displayed page size in SVG units (the rotated image's pixels)
+  height: number;
+  selectedId?: string | null;
+}
+
+// SVG rendering of page annotations for the editor; each shape carries data-annotation-id for hit testing
+export const AnnotationShapes: React.FC<AnnotationShapesProps> = ({ annotations, rotation, width, height, selectedId }) => {
+  // Sizes are relative to the unrotated page width, which a quarter turn lays along the display height
+  const pageWidth = rotation % 180 === 0 ? width : height;
+  const hitWidth = Math.max(width, height) * 0.03;
+  const px = (p: Point): Point => {
+    const d = toDisplayPoint(p, rotation);
+    return { x: d.x * width, y: d.y * height };
+  };
+
+  const renderShape = (annotation: Annotation) => {
+    const points = annotation.points.map(px);
+    const size = annotation.size * pageWidth;
+    const stroke = { stroke: annotation.color, strokeWidth: size, strokeLinecap: 'round' as const, strokeLinejoin: 'round' as const, fill: 'none' };
+
+    switch (annotation.type) {
+      case 'STROKE': {
+        const path = points.map(p => `${p.x},${p.y}`).join(' ');
+        return (
+          <>
+            <polyline points={path} stroke="transparent" strokeWidth={Math.max(size, hitWidth)} fill="none" />
+            <polyline points={points.length === 1 ? `${path} ${points[0].x + 0.01},${points[0].y}` : path} {...stroke} />
+          </>
+        );
+      }
+      case 'RECT': {
+        const [a, b] = points;
+        return (
+          <rect
+            x={Math.min(a.x, b.x)} y={Math.min(a.y, b.y)}
+            width={Math.abs(b.x - a.x)} height={Math.abs(b.y - a.y)}
+            {...stroke}
+            pointerEvents="visibleStroke"
+          />
+        );
+      }
+      case 'ARROW': {
+        const [from, to] = points;
+        const barbs = arrowHead(from, to, arrowHeadLength(size, pageWidth));
+        return (
+          <>
+            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="transparent" strokeWidth={Math.max(size, hitWidth)} />
+            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} {...stroke} />
+            <polygon points={[to, ...barbs].map(p => `${p.x},${p.y}`).join(' ')} fill={annotation.color} />
+          </>
+        );
+      }
+      case 'TEXT': {
+        const [anchor] = points;
+        return (
+          <text
+            x={anchor.x} y={anchor.y}
+            fontSize={size}
+            fontFamily={ANNOTATION_FONT}
+            fill={annotation.color}
+            dominantBaseline="hanging"
+            transform={`rotate(${rotation} ${anchor.x} ${anchor.y})`}
+          >
+            {(annotation.text || '').split('\n').map((line, i) => (
+              <tspan key={i} x={anchor.x} dy={i === 0 ? 0 : size * TEXT_LINE_HEIGHT}>{line}</tspan>
+            ))}
+          </text>
+        );
+      }
+      case 'SIGNATURE': {
+        const [center] = points;
+        const imageHeight = size * (annotation.aspect ?? 1);
+        return (
+          <g transform={`translate(${center.x} ${center.y}) rotate(${rotation + (annotation.angle ?? 0)})`}>
+            <image href={annotation.image} x={-size / 2} y={-imageHeight / 2} width={size} height={imageHeight} preserveAspectRatio="none" />
+          </g>
+        );
+      }
+      case 'NOTE': {
+        const [anchor] = points;
+        const icon = pageWidth * 0.05;
+        return (
+          <g transform={`translate(${anchor.x} ${anchor.y})`}>
+            <title>{annotation.text}</title>
+            <rect width={icon} height={icon} rx={icon * 0.15} fill="#fde047" stroke="#ca8a04" strokeWidth={icon * 0.06} />
+            {[0.3, 0.5, 0.7].map(f => (
+              <line key={f} x1={icon * 0.2} x2={icon * 0.8} y1={icon * f} y2={icon * f} stroke="#a16207" strokeWidth={icon * 0.06} />
+            ))}
+          </g>
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      {annotations.map(annotation => (
+        <g
+          key={annotation.id}
+          data-annotation-id={annotation.id}
+          style={annotation.id === selectedId ? { filter: 'drop-shadow(0 0 6px #2563eb)' } : undefined}
+        >
+          {renderShape(annotation)}
+        </g>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileImage } from 'lucide-react';
+import { StoredDocument } from '../types';
+import { getThumbnailUrl } from '../services/storageService';
+
+interface DocumentThumbnailProps {
+  doc: StoredDocument;
+  className?: string;
+}
+
+// Loads the stored thumbnail only once the card scrolls into view
+export const DocumentThumbnail: React.FC<DocumentThumbnailProps> = ({ doc, className = '' }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!ref.current || isVisible) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  // `doc` changes identity on every save, which is when the thumbnail may have been regenerated
+  useEffect(() => {
+    if (!isVisible) return;
+    let cancelled = false;
+    getThumbnailUrl(doc.id)
+      .then(result => { if (!cancelled) setUrl(result); })
+      .catch(error => console.error("Thumbnail load failed:", error));
+    return () => { cancelled = true; };
+  }, [isVisible, doc]);
+
+  return (
+    <div ref={ref} className={className}>
+      {url ? (
+        <img src={url} className="w-full h-full object-cover" alt="Preview" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-gray-300">
+          <FileImage size={24} />
+        </div>
+      )}
+    </div>
+  );
+};
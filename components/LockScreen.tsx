@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from './Button';
+
+interface LockScreenProps {
+  // Resolves false for a wrong passphrase
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+// Shown instead of the app while the encrypted library is locked
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setError('Wrong passphrase');
+        setPassphrase('');
+      }
+    } catch (error) {
+      console.error("Unlock failed:", error);
+      setError('Could not open the library');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6 pt-safe pb-safe">
+      <form onSubmit={submit} className="w-full max-w-xs flex flex-col items-center text-center">
+        <div className="w-16 h-16 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center mb-4">
+          <Lock size={28} />
+        </div>
+        <h1 className="text-xl font-bold text-gray-900 mb-1">Library locked</h1>
+        <p className="text-sm text-gray-500 mb-6">Enter your passphrase to decrypt your documents.</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+          className="w-full p-3 rounded-xl border border-gray-200 bg-white text-gray-800"
+        />
+        <p className="h-5 mt-2 text-sm text-red-600">{error}</p>
+        <Button type="submit" className="w-full mt-2" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { Signature } from '../types';
+import { createSignature } from '../services/signatureUtils';
+import { Button } from './Button';
+
+interface SignaturePadProps {
+  onSave: (signature: Signature) => void;
+  onCancel: () => void;
+}
+
+const INK_COLORS = ['#111827', '#1d4ed8'];
+
+// Full-screen drawing surface for adding a signature to the library
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onSave, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [ink, setInk] = useState(INK_COLORS[0]);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Backing store at device resolution so strokes stay crisp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * window.devicePixelRatio;
+    canvas.height = rect.height * window.devicePixelRatio;
+  }, []);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * e.currentTarget.width / rect.width,
+      y: (e.clientY - rect.top) * e.currentTarget.height / rect.height
+    };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    const from = lastPointRef.current;
+    if (!ctx || !from) return;
+    const to = toCanvasPoint(e);
+    ctx.strokeStyle = ink;
+    ctx.lineWidth = 3 * window.devicePixelRatio;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x + 0.01, to.y);
+    ctx.stroke();
+    lastPointRef.current = to;
+    setIsEmpty(false);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+  };
+
+  const save = () => {
+    const canvas = canvasRef.current;
+    const signature = canvas && createSignature(canvas, canvas.width, canvas.height);
+    if (signature) onSave(signature);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-5">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-lg text-gray-900">Draw your signature</h3>
+          <button type="button" onClick={onCancel} className="bg-gray-100 p-2 rounded-full text-gray-600" aria-label="Close"><X size={20} /></button>
+        </div>
+        <canvas
+          ref={canvasRef}
+          className="w-full h-48 rounded-xl border-2 border-dashed border-gray-300 bg-white touch-none cursor-crosshair"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            lastPointRef.current = toCanvasPoint(e);
+            drawTo(e);
+          }}
+          onPointerMove={drawTo}
+          onPointerUp={() => { lastPointRef.current = null; }}
+          onPointerCancel={() => { lastPointRef.current = null; }}
+        />
+        <div className="flex items-center justify-between mt-4">
+          <div className="flex gap-2">
+            {INK_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => setInk(color)}
+                className={`w-8 h-8 rounded-full border-4 ${ink === color ? 'border-blue-200' : 'border-transparent'}`}
+                style={{ backgroundColor: color }}
+                aria-label={color === INK_COLORS[0] ? 'Black ink' : 'Blue ink'}
+              />
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={clear} disabled={isEmpty}>Clear</Button>
+            <Button variant="primary" onClick={save} disabled={isEmpty}>Save</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 // This service worker ensures the app works offline by caching the app shell AND external dependencies.
 
 const CACHE_NAME = 'openscan-v1';
+// Files received through the share target wait here until the app picks them up (see importService.ts)
+const SHARE_CACHE_NAME = 'openscan-shared';
 // NOTE: We use relative paths ('./') so this works on GitHub Pages sub-directories.
 const URLS_TO_CACHE = [
   './',
@@ -31,8 +33,31 @@ self.addEventListener('install', (event: any) => {
   );
 });
 
+// Share Target - Android's "Share -> Open Scan" POSTs the files here (declared in manifest.json)
+const receiveSharedFiles = async (request: Request): Promise<Response> => {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((f): f is File => f instanceof File);
+    await caches.delete(SHARE_CACHE_NAME); // Drop anything from an earlier share that was never opened
+    const cache = await caches.open(SHARE_CACHE_NAME);
+    await Promise.all(files.map((file, i) => cache.put(
+      `./shared/${String(i).padStart(4, '0')}`,
+      new Response(file, { headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) } })
+    )));
+  } catch (err) {
+    console.error("Receiving shared files failed:", err);
+  }
+  // 303 turns the POST into a normal page load of the app
+  return Response.redirect('./index.html?shared=1', 303);
+};
+
 // Fetch Event - Stale-While-Revalidate Strategy
 self.addEventListener('fetch', (event: any) => {
+  if (event.request.method === 'POST' && new URL(event.request.url).pathname.endsWith('/share-target')) {
+    event.respondWith(receiveSharedFiles(event.request));
+    return;
+  }
+
   // Allow all requests to pass through, but cache them if they are valid
   event.respondWith(
     caches.match(event.request).then((cachedResponse) => {
@@ -66,7 +91,7 @@ self.addEventListener('fetch', (event: any) => {
 
 // Activate Event - Clean old caches
 self.addEventListener('activate', (event: any) => {
-  const cacheWhitelist = [CACHE_NAME];
+  const cacheWhitelist = [CACHE_NAME, SHARE_CACHE_NAME];
   event.waitUntil(
     caches.keys().then((cacheNames) => {
       return Promise.all(
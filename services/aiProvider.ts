@@ -0,0 +1,141 @@
+import { ExpenseData, ExpenseLineItem, PageOcr } from "../types";
+
+// Common contract for AI backends; the app only ever talks to an AIProvider
+
+export type AIProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface DocumentAnalysis {
+  title: string;
+  category: string;
+  summary: string;
+  tags: string[]; // Suggestions only; the user decides whether to apply them
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  endpoint: string; // Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1
+  model: string; // Empty = provider default
+  apiKey: string; // Empty = provider default (Gemini falls back to the build-time key)
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  isConfigured: () => boolean;
+  analyzeDocument: (base64Image: string) => Promise<DocumentAnalysis>;
+  // Same result as analyzeDocument, but from already-recognized text (used for multi-page documents)
+  summarizeText: (text: string) => Promise<DocumentAnalysis>;
+  translateText: (text: string, targetLang: string, sourceLang?: string) => Promise<string>;
+  extractExpense: (base64Image: string) => Promise<ExpenseData>;
+  // Optional: cloud OCR with word boxes, used only when the on-device engine fails
+  extractWords?: (base64Image: string) => Promise<PageOcr>;
+}
+
+// Pulls the first JSON object out of a model reply (some servers wrap it in prose or code fences)
+export const parseJSONReply = (text: string): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) return {};
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return {};
+  }
+};
+
+export const ANALYSIS_PROMPT = `Analyze this scanned document image.
+1. Identify the document category (e.g., Receipt, Invoice, Business Card, Handwritten Note, Contract, Whiteboard).
+2. Extract the most important text (OCR) to create a short summary.
+3. Generate a concise, descriptive title based on the content (e.g., "Home Depot Receipt", "Project Alpha Notes").
+4. Suggest up to 5 short lowercase tags useful for organizing it (e.g., "tax-2024", "travel", "warranty").`;
+
+export const buildSummaryPrompt = (text: string) => `The following is text recognized from a scanned document (it may be partial summaries of consecutive sections).
+1. Identify the document category (e.g., Receipt, Invoice, Business Card, Handwritten Note, Contract, Whiteboard).
+2. Write a short summary covering the whole document.
+3. Generate a concise, descriptive title based on the content.
+4. Suggest up to 5 short lowercase tags useful for organizing it.
+
+Text:
+"${text}"`;
+
+export const EXPENSE_PROMPT = `This image is a receipt or invoice. Extract:
+- vendor: the merchant or issuing company
+- date: the document date as YYYY-MM-DD
+- currency: the ISO 4217 currency code (e.g. USD, EUR)
+- subtotal, tax, total: numbers without currency symbols
+- invoiceNumber: the invoice or receipt number, if any
+- lineItems: each purchased item with description, quantity, unitPrice and amount
+Leave fields empty when they are not present. Do not guess.`;
+
+export const buildTranslationPrompt = (text: string, targetLang: string, sourceLang: string) => `Translate the following text from ${sourceLang} to ${targetLang}.
+Return only the translated text. Do not add any conversational preamble.
+
+Text:
+"${text}"`;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+// Model replies are untrusted: any field may be missing or of the wrong type
+const fieldsOf = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const nonEmptyString = (value: unknown, fallback: string) => typeof value === 'string' && value.trim() ? value : fallback;
+
+export const toDocumentAnalysis = (result: unknown): DocumentAnalysis => {
+  const fields = fieldsOf(result);
+  const tags = Array.isArray(fields.tags) ? fields.tags.filter((t): t is string => typeof t === 'string') : [];
+  return {
+    title: nonEmptyString(fields.title, "Untitled Scan"),
+    category: nonEmptyString(fields.category, "General"),
+    summary: nonEmptyString(fields.summary, "No text detected."),
+    tags: Array.from(new Set(tags.map(normalizeTag).filter(Boolean))).slice(0, 5)
+  };
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  // Accept "1,234.56" and "1.234,56" style amounts
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  const normalized = /,\d{1,2}$/.test(cleaned) ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  const parsed = parseFloat(normalized);
+  return isFinite(parsed) ? parsed : undefined;
+};
+
+// Invoice numbers and the like sometimes come back as JSON numbers
+const toText = (value: unknown): string =>
+  typeof value === 'string' ? value : typeof value === 'number' && isFinite(value) ? String(value) : '';
+
+// Normalizes whatever a model returned into a well-formed ExpenseData
+export const toExpenseData = (result: unknown): ExpenseData => {
+  const fields = fieldsOf(result);
+  return {
+    vendor: toText(fields.vendor),
+    date: toText(fields.date),
+    currency: toText(fields.currency).toUpperCase(),
+    subtotal: toNumber(fields.subtotal),
+    tax: toNumber(fields.tax),
+    total: toNumber(fields.total),
+    invoiceNumber: toText(fields.invoiceNumber),
+    lineItems: (Array.isArray(fields.lineItems) ? fields.lineItems : []).map((entry: unknown): ExpenseLineItem => {
+      const item = fieldsOf(entry);
+      return {
+        description: toText(item.description),
+        quantity: toNumber(item.quantity),
+        unitPrice: toNumber(item.unitPrice),
+        amount: toNumber(item.amount)
+      };
+    })
+  };
+};
+
+// No network at all: analysis and translation are simply unavailable
+export const createOfflineProvider = (): AIProvider => ({
+  id: 'offline',
+  label: 'Offline',
+  isConfigured: () => false,
+  analyzeDocument: async () => { throw new Error("AI is disabled (offline provider)"); },
+  summarizeText: async () => { throw new Error("AI is disabled (offline provider)"); },
+  translateText: async () => { throw new Error("AI is disabled (offline provider)"); },
+  extractExpense: async () => { throw new Error("AI is disabled (offline provider)"); }
+});
@@ -0,0 +1,50 @@
+import { AIProvider, AIProviderId, AISettings, createOfflineProvider } from "./aiProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAIProvider } from "./openAIService";
+
+// Runtime selection of the AI backend, configured from the settings screen
+
+const SETTINGS_KEY = 'open_scan_ai_settings';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  endpoint: '',
+  model: '',
+  apiKey: ''
+};
+
+export const AI_PROVIDER_OPTIONS: { id: AIProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Cloud AI via the Gemini API' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'Any /v1/chat/completions endpoint, including self-hosted servers' },
+  { id: 'offline', label: 'Offline only', description: 'No AI calls; on-device OCR only' }
+];
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(saved) } : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const createAIProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(settings);
+    case 'openai': return createOpenAIProvider(settings);
+    default: return createOfflineProvider();
+  }
+};
+
+// NOTE: settings (including any API key) are kept in localStorage on this device only
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  activeProvider = createAIProvider(settings);
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createAIProvider(loadAISettings());
+  return activeProvider;
+};
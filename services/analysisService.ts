@@ -0,0 +1,85 @@
+import { ScannedPage } from "../types";
+import { AIProvider, DocumentAnalysis } from "./aiProvider";
+import { recognizePage } from "./ocrService";
+
+// Whole-document analysis: OCR every page, then summarize the text in chunks small enough for any model.
+
+// Roughly 3k tokens per request, which fits even small self-hosted models
+const CHUNK_CHARS = 12000;
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Recognizes pages that don't have OCR yet; pages that already do are returned untouched
+export const recognizeMissingPages = async (pages: ScannedPage[], onProgress?: ProgressCallback): Promise<ScannedPage[]> => {
+  const result: ScannedPage[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    result.push(page.ocr ? page : { ...page, ocr: await recognizePage(page.processedDataUrl) });
+    onProgress?.(i + 1, pages.length);
+  }
+  return result;
+};
+
+export const getDocumentText = (pages: ScannedPage[]): string =>
+  pages
+    .map((page, i) => page.ocr?.text.trim() ? `--- Page ${i + 1} ---\n${page.ocr.text.trim()}` : '')
+    .filter(Boolean)
+    .join('\n\n');
+
+/**
+ * Splits text into chunks of at most `size` characters, preferring paragraph
+ * breaks (page headers start paragraphs) and falling back to whitespace.
+ */
+export const chunkText = (text: string, size = CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current.length + paragraph.length + 2 <= size) {
+      current += (current ? '\n\n' : '') + paragraph;
+      continue;
+    }
+    flush();
+    let rest = paragraph;
+    while (rest.length > size) {
+      const cut = rest.lastIndexOf(' ', size);
+      const end = cut > size / 2 ? cut : size;
+      chunks.push(rest.slice(0, end).trim());
+      rest = rest.slice(end);
+    }
+    current = rest;
+  }
+  flush();
+  return chunks;
+};
+
+/**
+ * Map/reduce summary: each chunk is summarized on its own, then the partial
+ * summaries are summarized again until everything fits in a single request.
+ */
+export const summarizeDocumentText = async (provider: AIProvider, text: string, onProgress?: ProgressCallback): Promise<DocumentAnalysis> => {
+  let chunks = chunkText(text);
+  let done = 0;
+
+  while (chunks.length > 1) {
+    const partials: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const partial = await provider.summarizeText(chunks[i]);
+      partials.push(`Section ${i + 1}: ${partial.summary}`);
+      // Remaining = rest of this round + at least the final request
+      onProgress?.(++done, done + chunks.length - i);
+    }
+    const next = chunkText(partials.join('\n\n'));
+    // Summaries that don't shrink would loop forever; keep what fits in one request instead
+    chunks = next.length < chunks.length ? next : [next.join('\n\n').slice(0, CHUNK_CHARS)];
+  }
+
+  const result = await provider.summarizeText(chunks[0] || '');
+  onProgress?.(++done, done);
+  return result;
+};
@@ -0,0 +1,112 @@
+import { Annotation, Point } from "../types";
+
+// Annotation geometry is stored on the unrotated page (see Annotation); these helpers map it onto
+// the page as displayed and flatten it into images.
+
+// Normalized page point -> normalized point on the page turned clockwise by `rotation` degrees
+export const toDisplayPoint = (p: Point, rotation: number): Point => {
+  switch (rotation) {
+    case 90: return { x: 1 - p.y, y: p.x };
+    case 180: return { x: 1 - p.x, y: 1 - p.y };
+    case 270: return { x: p.y, y: 1 - p.x };
+    default: return p;
+  }
+};
+
+export const fromDisplayPoint = (p: Point, rotation: number): Point => {
+  switch (rotation) {
+    case 90: return { x: p.y, y: 1 - p.x };
+    case 180: return { x: 1 - p.x, y: 1 - p.y };
+    case 270: return { x: 1 - p.y, y: p.x };
+    default: return p;
+  }
+};
+
+// Arrowhead length for a given line width (in the same pixel space)
+export const arrowHeadLength = (lineWidth: number, pageWidth: number) => Math.max(lineWidth * 3, pageWidth * 0.02);
+
+// The two barb ends of an arrowhead pointing at `to`
+export const arrowHead = (from: Point, to: Point, length: number): Point[] => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  return [-1, 1].map(side => ({
+    x: to.x - length * Math.cos(angle + side * Math.PI / 6),
+    y: to.y - length * Math.sin(angle + side * Math.PI / 6)
+  }));
+};
+
+export const TEXT_LINE_HEIGHT = 1.2;
+export const ANNOTATION_FONT = 'Helvetica, Arial, sans-serif';
+
+// Signature images keyed by annotation id, decoded up front because canvas drawing is synchronous
+export const loadAnnotationImages = async (annotations: Annotation[]): Promise<Map<string, HTMLImageElement>> => {
+  const entries = await Promise.all(annotations.filter(a => a.image).map(a => new Promise<[string, HTMLImageElement] | null>((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve([a.id, img]);
+    img.onerror = () => resolve(null);
+    img.src = a.image!;
+  })));
+  return new Map(entries.filter((entry): entry is [string, HTMLImageElement] => !!entry));
+};
+
+/**
+ * Draws annotations onto a context laid out as the unrotated page (`width` x `height` pixels).
+ * Notes are comments, not markup, so they're left out (PDF export adds them as real annotations).
+ * Signatures are drawn only if their image is in `images` (see loadAnnotationImages).
+ */
+export const drawAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  width: number,
+  height: number,
+  images: Map<string, HTMLImageElement> = new Map()
+) => {
+  const px = (p: Point): Point => ({ x: p.x * width, y: p.y * height });
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const annotation of annotations) {
+    const points = annotation.points.map(px);
+    const size = annotation.size * width;
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineWidth = size;
+
+    if (annotation.type === 'STROKE' && points.length > 0) {
+      ctx.beginPath();
+      points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      // A single tap still leaves a dot
+      if (points.length === 1) ctx.lineTo(points[0].x + 0.01, points[0].y);
+      ctx.stroke();
+    } else if (annotation.type === 'RECT' && points.length === 2) {
+      ctx.strokeRect(
+        Math.min(points[0].x, points[1].x), Math.min(points[0].y, points[1].y),
+        Math.abs(points[1].x - points[0].x), Math.abs(points[1].y - points[0].y)
+      );
+    } else if (annotation.type === 'ARROW' && points.length === 2) {
+      const [from, to] = points;
+      const barbs = arrowHead(from, to, arrowHeadLength(size, width));
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(to.x, to.y);
+      barbs.forEach(b => ctx.lineTo(b.x, b.y));
+      ctx.closePath();
+      ctx.fill();
+    } else if (annotation.type === 'TEXT' && annotation.text && points.length > 0) {
+      ctx.font = `${size}px ${ANNOTATION_FONT}`;
+      ctx.textBaseline = 'top';
+      annotation.text.split('\n').forEach((line, i) => ctx.fillText(line, points[0].x, points[0].y + i * size * TEXT_LINE_HEIGHT));
+    } else if (annotation.type === 'SIGNATURE' && images.has(annotation.id) && points.length > 0) {
+      const imageHeight = size * (annotation.aspect ?? 1);
+      ctx.save();
+      ctx.translate(points[0].x, points[0].y);
+      ctx.rotate(((annotation.angle ?? 0) * Math.PI) / 180);
+      ctx.drawImage(images.get(annotation.id)!, -size / 2, -imageHeight / 2, size, imageHeight);
+      ctx.restore();
+    }
+  }
+  ctx.restore();
+};
@@ -0,0 +1,207 @@
+import JSZip from "jszip";
+import { DocumentData, Folder, ScannedPage, Signature, StoredDocument, StoredPage } from "../types";
+import { blobToDataUrl, generateId } from "./imageUtils";
+import { ImageKind, listDocuments, listFolders, listSignatures, readDocumentImages, saveDocument, saveFolder, saveSignature } from "./storageService";
+
+// Whole-library backup: one ZIP with a versioned manifest.json (documents without pixels, folders,
+// signatures) and every page image stored as a file next to it.
+//   manifest.json
+//   images/<pageId>/original.jpg, processed.jpg, highlights.png
+
+const BACKUP_FORMAT = 'open-scan-library';
+const BACKUP_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface BackupPage extends StoredPage {
+  images: Partial<Record<ImageKind, string>>; // Paths inside the archive
+}
+
+interface BackupDocument extends Omit<StoredDocument, 'pages'> {
+  pages: BackupPage[];
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  documents: BackupDocument[];
+  folders: Folder[];
+  signatures: Signature[];
+}
+
+// A document in the backup whose id is already in the library
+export interface BackupConflict {
+  id: string;
+  title: string;
+  existingTitle: string;
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  zip: JSZip;
+  conflicts: BackupConflict[];
+}
+
+// What happens to a conflicting document: MERGE keeps both (the backup copy gets new ids),
+// SKIP keeps the library's version, OVERWRITE replaces it with the backup's
+export type RestoreMode = 'MERGE' | 'SKIP' | 'OVERWRITE';
+
+export interface RestorePlan {
+  documents: Record<string, RestoreMode>; // Per conflicting document id; conflicts left out are skipped
+  replaceExisting: boolean; // Folders and signatures already in the library take the backup's version
+}
+
+const IMAGE_TYPES: Record<string, string> = { jpg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+
+const extensionFor = (blob: Blob) => {
+  const subtype = blob.type.match(/^image\/(\w+)/)?.[1] || 'jpeg';
+  return subtype === 'jpeg' ? 'jpg' : subtype;
+};
+
+/**
+ * Packs the whole library into one archive. Images are copied as stored, one document at a time,
+ * so only the archive itself has to fit in memory.
+ */
+export const createBackup = async (onProgress?: (done: number, total: number) => void): Promise<File> => {
+  const [stored, folders, signatures] = await Promise.all([listDocuments(), listFolders(), listSignatures()]);
+  const zip = new JSZip();
+  const documents: BackupDocument[] = [];
+
+  for (let i = 0; i < stored.length; i++) {
+    const doc = await readDocumentImages(stored[i].id);
+    if (!doc) continue;
+    const { record } = doc;
+    const pages = record.pages.map((page, p): BackupPage => {
+      const images: Partial<Record<ImageKind, string>> = {};
+      for (const [kind, blob] of Object.entries(doc.images[p]) as [ImageKind, Blob][]) {
+        const path = `images/${page.id}/${kind}.${extensionFor(blob)}`;
+        // Images are already compressed; deflating them again only costs time
+        zip.file(path, blob, { compression: 'STORE' });
+        images[kind] = path;
+      }
+      return { ...page, images };
+    });
+    documents.push({ ...record, pages });
+    onProgress?.(i + 1, stored.length);
+  }
+
+  const manifest: BackupManifest = { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: Date.now(), documents, folders, signatures };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest));
+
+  const content = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  const date = new Date().toISOString().slice(0, 10);
+  return new File([content], `open-scan-backup-${date}.zip`, { type: 'application/zip' });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Structural check of everything the restore relies on, including that every referenced image is in the archive
+const validateManifest = (value: unknown, zip: JSZip): BackupManifest => {
+  if (!isObject(value) || value.format !== BACKUP_FORMAT) throw new Error("This file is not an Open Scan library backup.");
+  if (typeof value.version !== 'number' || value.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of Open Scan. Update the app to restore it.");
+  }
+  if (!Array.isArray(value.documents) || !Array.isArray(value.folders) || !Array.isArray(value.signatures)) {
+    throw new Error("The backup is damaged: its manifest is incomplete.");
+  }
+
+  for (const doc of value.documents as unknown[]) {
+    if (!isObject(doc) || typeof doc.id !== 'string' || typeof doc.title !== 'string' || typeof doc.createdAt !== 'number' || !Array.isArray(doc.pages)) {
+      throw new Error("The backup is damaged: a document entry is invalid.");
+    }
+    for (const page of doc.pages as unknown[]) {
+      const images = isObject(page) && isObject(page.images) ? page.images : null;
+      const paths = images ? Object.values(images) : [];
+      const hasPageImage = !!images && (typeof images.original === 'string' || typeof images.processed === 'string');
+      if (!isObject(page) || typeof page.id !== 'string' || !hasPageImage || paths.some(path => typeof path !== 'string' || !zip.file(path))) {
+        throw new Error(`The backup is damaged: images of "${doc.title}" are missing.`);
+      }
+    }
+  }
+  for (const entry of [...value.folders, ...value.signatures] as unknown[]) {
+    if (!isObject(entry) || typeof entry.id !== 'string') throw new Error("The backup is damaged: a folder or signature entry is invalid.");
+  }
+  return value as unknown as BackupManifest;
+};
+
+// Opens and validates a backup and lists which of its documents are already in the library
+export const readBackup = async (file: File): Promise<BackupArchive> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("This file is not an Open Scan library backup.");
+  }
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new Error("This file is not an Open Scan library backup.");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error("The backup is damaged: its manifest can't be read.");
+  }
+  const manifest = validateManifest(parsed, zip);
+
+  const existing = new Map((await listDocuments()).map(doc => [doc.id, doc]));
+  const conflicts = manifest.documents
+    .filter(doc => existing.has(doc.id))
+    .map(doc => ({ id: doc.id, title: doc.title, existingTitle: existing.get(doc.id)!.title }));
+  return { manifest, zip, conflicts };
+};
+
+const readImage = async (zip: JSZip, path: string | undefined): Promise<string | undefined> => {
+  const entry = path ? zip.file(path) : null;
+  if (!entry) return undefined;
+  const type = IMAGE_TYPES[path!.split('.').pop() ?? ''] ?? 'image/jpeg';
+  return blobToDataUrl(new Blob([await entry.async('arraybuffer')], { type }));
+};
+
+/**
+ * Writes the backup into the library. Folders and signatures missing from the library are added
+ * (existing ones are replaced only with `plan.replaceExisting`); documents not in the library are
+ * added, and each conflicting one is handled per its mode in the plan. Returns how many documents
+ * were restored.
+ */
+export const restoreBackup = async (archive: BackupArchive, plan: RestorePlan, onProgress?: (done: number, total: number) => void): Promise<number> => {
+  const { manifest, zip } = archive;
+  const conflictIds = new Set(archive.conflicts.map(c => c.id));
+
+  const [folders, signatures] = await Promise.all([listFolders(), listSignatures()]);
+  const folderIds = new Set(folders.map(f => f.id));
+  const signatureIds = new Set(signatures.map(s => s.id));
+  for (const folder of manifest.folders) {
+    if (!folderIds.has(folder.id) || plan.replaceExisting) await saveFolder(folder);
+  }
+  for (const signature of manifest.signatures) {
+    if (!signatureIds.has(signature.id) || plan.replaceExisting) await saveSignature(signature);
+  }
+
+  let restored = 0;
+  for (let i = 0; i < manifest.documents.length; i++) {
+    const { pages, ...backupDoc } = manifest.documents[i];
+    const isConflict = conflictIds.has(backupDoc.id);
+    const mode = isConflict ? plan.documents[backupDoc.id] ?? 'SKIP' : 'OVERWRITE';
+    if (mode !== 'SKIP') {
+      const restoredPages = await Promise.all(pages.map(async ({ images, ...page }): Promise<ScannedPage> => {
+        const original = await readImage(zip, images.original);
+        const processed = await readImage(zip, images.processed);
+        return {
+          ...page,
+          originalDataUrl: original || processed || '',
+          processedDataUrl: processed || original || '',
+          highlightsLayer: await readImage(zip, images.highlights)
+        };
+      }));
+
+      let doc: DocumentData = { ...backupDoc, pages: restoredPages };
+      if (isConflict && mode === 'MERGE') {
+        doc = { ...doc, id: generateId(), title: `${doc.title} (restored)`, pages: doc.pages.map(page => ({ ...page, id: generateId() })) };
+      }
+      await saveDocument(doc);
+      restored++;
+    }
+    onProgress?.(i + 1, manifest.documents.length);
+  }
+  return restored;
+};
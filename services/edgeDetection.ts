@@ -0,0 +1,258 @@
+import { Point } from '../types';
+import { orderCorners, polygonArea } from './perspectiveUtils';
+
+// Detection runs on a downscaled copy of the frame; edges survive, cost drops ~30x
+const DETECTION_SIZE = 320;
+// The detected page must cover at least this fraction of the frame
+const MIN_AREA_RATIO = 0.15;
+// ...and the quad must explain most of the contour's hull (i.e. it's actually four-sided)
+const MIN_HULL_FILL = 0.85;
+const MIN_CORNER_ANGLE = 40;
+const MAX_CORNER_ANGLE = 140;
+
+const toGrayscale = (data: Uint8ClampedArray, size: number): Float32Array => {
+  const gray = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Separable [1 2 1] kernel, applied twice to approximate a 5x5 gaussian
+const blur = (src: Float32Array, w: number, h: number): Float32Array => {
+  let out = src;
+  for (let pass = 0; pass < 2; pass++) {
+    const tmp = new Float32Array(w * h);
+    const next = new Float32Array(w * h);
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const l = out[y * w + Math.max(0, x - 1)];
+        const r = out[y * w + Math.min(w - 1, x + 1)];
+        tmp[y * w + x] = (l + 2 * out[y * w + x] + r) / 4;
+      }
+    }
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const u = tmp[Math.max(0, y - 1) * w + x];
+        const d = tmp[Math.min(h - 1, y + 1) * w + x];
+        next[y * w + x] = (u + 2 * tmp[y * w + x] + d) / 4;
+      }
+    }
+    out = next;
+  }
+  return out;
+};
+
+// Sobel gradient magnitude thresholded at the 90th percentile, then dilated once to close gaps
+const detectEdges = (gray: Float32Array, w: number, h: number): Uint8Array => {
+  const mag = new Float32Array(w * h);
+  const hist = new Uint32Array(1024);
+
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const gx = gray[i - w + 1] + 2 * gray[i + 1] + gray[i + w + 1] - gray[i - w - 1] - 2 * gray[i - 1] - gray[i + w - 1];
+      const gy = gray[i + w - 1] + 2 * gray[i + w] + gray[i + w + 1] - gray[i - w - 1] - 2 * gray[i - w] - gray[i - w + 1];
+      const m = Math.min(1023, Math.hypot(gx, gy));
+      mag[i] = m;
+      hist[m | 0]++;
+    }
+  }
+
+  const target = (w - 2) * (h - 2) * 0.9;
+  let threshold = 0;
+  for (let count = 0; threshold < 1023 && count + hist[threshold] < target; threshold++) {
+    count += hist[threshold];
+  }
+  threshold = Math.max(threshold, 40);
+
+  const edges = new Uint8Array(w * h);
+  // Skip a small frame border: sensors and letterboxing produce spurious straight edges there
+  for (let y = 3; y < h - 3; y++) {
+    for (let x = 3; x < w - 3; x++) {
+      if (mag[y * w + x] < threshold) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) edges[(y + dy) * w + x + dx] = 1;
+      }
+    }
+  }
+  return edges;
+};
+
+// Returns the points of the 8-connected edge component with the largest bounding box
+const largestContour = (edges: Uint8Array, w: number, h: number): Point[] => {
+  const visited = new Uint8Array(w * h);
+  const stack: number[] = [];
+  let best: Point[] = [];
+  let bestArea = 0;
+
+  for (let start = 0; start < edges.length; start++) {
+    if (!edges[start] || visited[start]) continue;
+
+    const points: Point[] = [];
+    let minX = w, minY = h, maxX = 0, maxY = 0;
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % w;
+      const y = (i - x) / w;
+      points.push({ x, y });
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+          const n = ny * w + nx;
+          if (edges[n] && !visited[n]) {
+            visited[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+
+    const area = (maxX - minX) * (maxY - minY);
+    if (area > bestArea) {
+      bestArea = area;
+      best = points;
+    }
+  }
+  return best;
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain
+const convexHull = (points: Point[]): Point[] => {
+  if (points.length < 3) return points;
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  lower.pop();
+  upper.pop();
+  return [...lower, ...upper];
+};
+
+// Drops the hull vertices that contribute least area until only `maxPoints` remain
+const simplifyHull = (hull: Point[], maxPoints: number): Point[] => {
+  const pts = [...hull];
+  while (pts.length > maxPoints) {
+    let minIdx = 0;
+    let minArea = Infinity;
+    for (let i = 0; i < pts.length; i++) {
+      const prev = pts[(i - 1 + pts.length) % pts.length];
+      const next = pts[(i + 1) % pts.length];
+      const area = Math.abs(cross(prev, pts[i], next));
+      if (area < minArea) {
+        minArea = area;
+        minIdx = i;
+      }
+    }
+    pts.splice(minIdx, 1);
+  }
+  return pts;
+};
+
+// Largest-area quadrilateral whose vertices lie on the (convex) hull
+const largestQuad = (hull: Point[]): Point[] | null => {
+  const n = hull.length;
+  if (n < 4) return null;
+  let best: Point[] | null = null;
+  let bestArea = 0;
+
+  for (let i = 0; i < n; i++) {
+    for (let k = i + 2; k < n; k++) {
+      let left = 0, leftIdx = -1;
+      for (let j = i + 1; j < k; j++) {
+        const a = Math.abs(cross(hull[i], hull[j], hull[k]));
+        if (a > left) { left = a; leftIdx = j; }
+      }
+      let right = 0, rightIdx = -1;
+      for (let l = k + 1; l < n + i; l++) {
+        const a = Math.abs(cross(hull[i], hull[l % n], hull[k]));
+        if (a > right) { right = a; rightIdx = l % n; }
+      }
+      if (leftIdx < 0 || rightIdx < 0) continue;
+      if (left + right > bestArea) {
+        bestArea = left + right;
+        best = [hull[i], hull[leftIdx], hull[k], hull[rightIdx]];
+      }
+    }
+  }
+  return best;
+};
+
+const hasReasonableAngles = (quad: Point[]): boolean => {
+  for (let i = 0; i < 4; i++) {
+    const prev = quad[(i + 3) % 4];
+    const p = quad[i];
+    const next = quad[(i + 1) % 4];
+    const a1 = Math.atan2(prev.y - p.y, prev.x - p.x);
+    const a2 = Math.atan2(next.y - p.y, next.x - p.x);
+    let angle = Math.abs(a1 - a2) * 180 / Math.PI;
+    if (angle > 180) angle = 360 - angle;
+    if (angle < MIN_CORNER_ANGLE || angle > MAX_CORNER_ANGLE) return false;
+  }
+  return true;
+};
+
+/**
+ * Finds the document quadrilateral in an image.
+ * Returns corners ordered TL, TR, BR, BL in the coordinates of `imageData`, or null if no page was found.
+ */
+export const detectDocument = (imageData: ImageData): Point[] | null => {
+  const { width: w, height: h, data } = imageData;
+  const gray = blur(toGrayscale(data, w * h), w, h);
+  const edges = detectEdges(gray, w, h);
+  const contour = largestContour(edges, w, h);
+  if (contour.length < 20) return null;
+
+  const hull = convexHull(contour);
+  const quad = largestQuad(simplifyHull(hull, 24));
+  if (!quad) return null;
+
+  const quadArea = polygonArea(quad);
+  if (quadArea < w * h * MIN_AREA_RATIO) return null;
+  if (quadArea < polygonArea(hull) * MIN_HULL_FILL) return null;
+
+  const ordered = orderCorners(quad);
+  return hasReasonableAngles(ordered) ? ordered : null;
+};
+
+/**
+ * Convenience wrapper for video frames and canvases: detects on a downscaled copy
+ * and returns corners in the source's full-resolution pixel coordinates.
+ */
+export const findDocumentCorners = (source: CanvasImageSource, width: number, height: number): Point[] | null => {
+  if (!width || !height) return null;
+  const scale = Math.min(1, DETECTION_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const corners = detectDocument(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  if (!corners) return null;
+
+  const sx = width / canvas.width;
+  const sy = height / canvas.height;
+  return corners.map(p => ({ x: p.x * sx, y: p.y * sy }));
+};
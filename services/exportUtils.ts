@@ -1,6 +1,111 @@
 import { jsPDF } from "jspdf";
 import JSZip from "jszip";
-import { DocumentData, ScannedPage } from "../types";
+import { encodePasswordAES256, encryptPDF } from "@pdfsmaller/pdf-encrypt";
+import { DocumentData, PageOcr, ScannedPage } from "../types";
+import { dataUrlToBlob } from "./imageUtils";
+import { toDisplayPoint } from "./annotationUtils";
+import { recognizePage } from "./ocrService";
+import { addArchivalProfile, addDocumentMetadata, embedArchivalFont } from "./pdfMetadata";
+
+const MM_TO_PT = 72 / 25.4;
+const MM_PER_INCH = 25.4;
+
+export type PaperSize = 'A4' | 'LETTER' | 'LEGAL' | 'FIT';
+export type PageOrientation = 'AUTO' | 'PORTRAIT' | 'LANDSCAPE';
+
+// Paper sizes in mm, portrait
+const PAPER_SIZES: Record<Exclude<PaperSize, 'FIT'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  LETTER: { width: 215.9, height: 279.4 },
+  LEGAL: { width: 215.9, height: 355.6 }
+};
+
+// Layout and image settings for PDF export, remembered on this device
+export interface PDFSettings {
+  paperSize: PaperSize; // FIT: each page is cut to its image (plus margins)
+  orientation: PageOrientation; // AUTO: landscape for scans wider than tall
+  margin: number; // mm
+  imageQuality: number; // JPEG quality 0-1; 1 embeds the scans as they are unless downsampled
+  dpi: number; // Downsample images above this resolution at their printed size; 0 = never
+  footer: boolean;
+  footerTemplate: string; // {page}, {pages}, {title} and {date} are filled in
+  archival: boolean; // PDF/A-1b for records retention: embedded font, sRGB output intent, notes left out
+}
+
+export const DEFAULT_PDF_SETTINGS: PDFSettings = {
+  paperSize: 'A4',
+  orientation: 'AUTO',
+  margin: 10,
+  imageQuality: 1,
+  dpi: 0,
+  footer: true,
+  footerTemplate: 'Page {page} of {pages} - {title}',
+  archival: false
+};
+
+const PDF_SETTINGS_KEY = 'open_scan_pdf_settings';
+
+export const loadPDFSettings = (): PDFSettings => {
+  try {
+    const saved = localStorage.getItem(PDF_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_PDF_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PDF_SETTINGS;
+  } catch {
+    return DEFAULT_PDF_SETTINGS;
+  }
+};
+
+export const savePDFSettings = (settings: PDFSettings) => {
+  localStorage.setItem(PDF_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Per-export only: passwords are never written to settings or storage
+export interface PDFProtection {
+  password: string; // Needed to open the file
+  allowPrinting: boolean;
+  allowCopying: boolean;
+}
+
+export interface PDFExportOptions {
+  searchable?: boolean; // Run OCR and add an invisible, selectable text layer
+  settings?: PDFSettings;
+  protection?: PDFProtection;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Exporters build a File; the caller decides whether to download or share it
+const fileBaseName = (title: string) => title.replace(/\s+/g, '_');
+
+export const downloadFile = (file: File) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Whether this browser can hand files to the native share sheet (mobile, some desktops)
+export const canShareFiles = (): boolean =>
+  typeof navigator.canShare === 'function' && navigator.canShare({ files: [new File([''], 'probe.pdf', { type: 'application/pdf' })] });
+
+/**
+ * Opens the native share sheet for the file, downloading it instead where that isn't possible.
+ * Sharing needs a recent tap, so a slow export (e.g. OCR) may also end up as a download.
+ */
+export const shareOrDownload = async (file: File, title: string) => {
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch (error) {
+      if ((error as DOMException).name === 'AbortError') return; // Sheet dismissed by the user
+      console.warn("Share failed, downloading instead:", error);
+    }
+  }
+  downloadFile(file);
+};
 
 // Helper: Convert base64 data URL to specific format
 const convertToFormat = async (dataUrl: string, format: 'jpeg' | 'png' | 'webp'): Promise<string> => {
@@ -23,65 +128,180 @@ const convertToFormat = async (dataUrl: string, format: 'jpeg' | 'png' | 'webp')
   });
 };
 
-export const exportToPDF = async (doc: DocumentData) => {
-  // A4 size in mm: 210 x 297
-  const pdf = new jsPDF({
-    orientation: "p",
-    unit: "mm",
-    format: "a4"
+// Sticky notes become PDF comments at their spot on the page; the other annotations are already in the image
+const addNotes = (pdf: jsPDF, page: ScannedPage, x: number, y: number, width: number, height: number) => {
+  for (const note of page.annotations ?? []) {
+    if (note.type !== 'NOTE' || !note.text) continue;
+    const p = toDisplayPoint(note.points[0], page.rotation);
+    pdf.createAnnotation({
+      type: 'text',
+      title: 'Note',
+      contents: note.text,
+      open: false,
+      bounds: { x: x + p.x * width, y: y + p.y * height, w: 6, h: 6 }
+    });
+  }
+};
+
+// Writes OCR words as invisible text stretched over their boxes, so selection/search lines up with the image
+const addTextLayer = (pdf: jsPDF, ocr: PageOcr, x: number, y: number, width: number, height: number, font: string) => {
+  pdf.setFont(font, "normal");
+  for (const word of ocr.words) {
+    const boxWidth = word.width * width;
+    const boxHeight = word.height * height;
+    if (!word.text.trim() || boxWidth <= 0 || boxHeight <= 0) continue;
+
+    pdf.setFontSize(boxHeight * MM_TO_PT);
+    const naturalWidth = pdf.getTextWidth(word.text);
+    pdf.text(word.text, x + word.x * width, y + word.y * height, {
+      baseline: 'top',
+      renderingMode: 'invisible',
+      horizontalScale: naturalWidth > 0 ? boxWidth / naturalWidth : 1
+    });
+  }
+};
+
+interface PageLayout {
+  pageWidth: number;
+  pageHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// PDF page size and image placement for one scan, in mm
+const layoutPage = (imgWidth: number, imgHeight: number, settings: PDFSettings): PageLayout => {
+  const landscape = settings.orientation === 'AUTO' ? imgWidth > imgHeight : settings.orientation === 'LANDSCAPE';
+  const paper = PAPER_SIZES[settings.paperSize === 'FIT' ? 'A4' : settings.paperSize];
+  const frameWidth = landscape ? paper.height : paper.width;
+  const frameHeight = landscape ? paper.width : paper.height;
+  const margin = settings.margin;
+
+  const scale = Math.min((frameWidth - margin * 2) / imgWidth, (frameHeight - margin * 2) / imgHeight);
+  const width = imgWidth * scale;
+  const height = imgHeight * scale;
+
+  // Fit-to-image pages keep the size the scan would have on A4 but drop the empty paper around it
+  if (settings.paperSize === 'FIT') {
+    return { pageWidth: width + margin * 2, pageHeight: height + margin * 2, x: margin, y: margin, width, height };
+  }
+  return { pageWidth: frameWidth, pageHeight: frameHeight, x: (frameWidth - width) / 2, y: (frameHeight - height) / 2, width, height };
+};
+
+const imageFormat = (dataUrl: string) => (dataUrl.match(/^data:image\/(\w+)/)?.[1] || 'jpeg').toUpperCase();
+
+// Downsamples to the target DPI at the printed width and re-encodes; otherwise the scan is embedded untouched
+const prepareImage = (img: HTMLImageElement, dataUrl: string, printedWidth: number, settings: PDFSettings) => {
+  const maxPixels = settings.dpi > 0 ? Math.round(printedWidth / MM_PER_INCH * settings.dpi) : Infinity;
+  const scale = Math.min(1, maxPixels / img.width);
+  if (scale >= 1 && settings.imageQuality >= 1) return { data: dataUrl, format: imageFormat(dataUrl) };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { data: canvas.toDataURL('image/jpeg', Math.min(settings.imageQuality, 0.92)), format: 'JPEG' };
+};
+
+const formatFooter = (template: string, values: Record<'page' | 'pages' | 'title' | 'date', string | number>) =>
+  template.replace(/\{(page|pages|title|date)\}/g, (_, key: keyof typeof values) => String(values[key]));
+
+// AES-256 passwords are SASLprep-normalized UTF-8; control and unassigned characters are rejected
+export const isSupportedPdfPassword = (password: string) => {
+  try {
+    encodePasswordAES256(password);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Encrypts a finished PDF with AES-256 (standard security handler, revision 6). Every string and
+ * stream is encrypted, bookmarks and metadata included. The owner password is random, so the open
+ * password can't lift the restrictions.
+ */
+export const protectPDF = (bytes: Uint8Array, protection: PDFProtection): Promise<Uint8Array> => {
+  const ownerBytes = crypto.getRandomValues(new Uint8Array(16));
+  return encryptPDF(bytes, protection.password, {
+    ownerPassword: Array.from(ownerBytes, b => b.toString(16).padStart(2, '0')).join(''),
+    allowPrinting: protection.allowPrinting,
+    allowHighQualityPrint: protection.allowPrinting,
+    allowCopying: protection.allowCopying,
+    allowModifying: false,
+    allowAnnotating: false,
+    allowFillingForms: false,
+    allowAssembly: false
   });
+};
 
-  const pageWidth = 210;
-  const pageHeight = 297;
-  const margin = 10;
-  const maxWidth = pageWidth - (margin * 2);
-  const maxHeight = pageHeight - (margin * 2);
+export const exportToPDF = async (doc: DocumentData, options: PDFExportOptions = {}): Promise<File> => {
+  const settings = options.settings ?? DEFAULT_PDF_SETTINGS;
+  // PDF/A forbids encryption, so protecting a file takes precedence over archiving it
+  const archival = settings.archival && !options.protection;
+  let pdf: jsPDF | undefined;
+  let font = "helvetica";
 
   for (let i = 0; i < doc.pages.length; i++) {
-    if (i > 0) pdf.addPage();
-    
     const page = doc.pages[i];
     const imgData = page.processedDataUrl;
     
-    // Create an image element to get dimensions
-    const imgProps = await new Promise<{width: number, height: number}>((resolve) => {
-        const img = new Image();
-        img.onload = () => resolve({ width: img.width, height: img.height });
-        img.src = imgData;
+    const img = await new Promise<HTMLImageElement>((resolve) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.src = imgData;
     });
 
-    // Calculate aspect ratio to fit within margins
-    const imgRatio = imgProps.width / imgProps.height;
-    const pageRatio = maxWidth / maxHeight;
-    
-    let finalWidth, finalHeight;
-    
-    if (imgRatio > pageRatio) {
-        // Width constrained
-        finalWidth = maxWidth;
-        finalHeight = maxWidth / imgRatio;
+    // Every page gets its own size and orientation
+    const { pageWidth, pageHeight, x, y, width: finalWidth, height: finalHeight } = layoutPage(img.width, img.height, settings);
+    const orientation = pageWidth > pageHeight ? 'l' : 'p';
+    if (!pdf) {
+      pdf = new jsPDF({ orientation, unit: "mm", format: [pageWidth, pageHeight] });
+      if (archival) font = await embedArchivalFont(pdf);
     } else {
-        // Height constrained
-        finalHeight = maxHeight;
-        finalWidth = maxHeight * imgRatio;
+      pdf.addPage([pageWidth, pageHeight], orientation);
     }
 
-    // Center the image
-    const x = (pageWidth - finalWidth) / 2;
-    const y = (pageHeight - finalHeight) / 2;
+    const image = prepareImage(img, imgData, finalWidth, settings);
+    pdf.addImage(image.data, image.format, x, y, finalWidth, finalHeight);
+    // PDF/A-1 would need appearance streams for comments, so archival copies go without
+    if (!archival) addNotes(pdf, page, x, y, finalWidth, finalHeight);
 
-    pdf.addImage(imgData, 'JPEG', x, y, finalWidth, finalHeight);
+    if (options.searchable) {
+      try {
+        addTextLayer(pdf, page.ocr ?? await recognizePage(imgData), x, y, finalWidth, finalHeight, font);
+      } catch (error) {
+        // One unreadable page shouldn't cancel the whole export; it just won't be searchable
+        console.error(`OCR failed for page ${i + 1}:`, error);
+      }
+    }
+    options.onProgress?.(i + 1, doc.pages.length);
     
-    // Add page number footer
-    pdf.setFontSize(10);
-    pdf.setTextColor(150);
-    pdf.text(`Page ${i + 1} of ${doc.pages.length} - ${doc.title}`, pageWidth / 2, pageHeight - 5, { align: 'center' });
+    if (settings.footer && settings.footerTemplate.trim()) {
+      const footer = formatFooter(settings.footerTemplate, {
+        page: i + 1,
+        pages: doc.pages.length,
+        title: doc.title,
+        date: new Date(doc.createdAt).toLocaleDateString()
+      });
+      pdf.setFont(font, "normal");
+      pdf.setFontSize(10);
+      pdf.setTextColor(150);
+      pdf.text(footer, pageWidth / 2, pageHeight - Math.max(3, settings.margin / 2), { align: 'center' });
+    }
   }
 
-  pdf.save(`${doc.title.replace(/\s+/g, '_')}.pdf`);
+  const output = pdf ?? new jsPDF({ unit: "mm", format: "a4" });
+  addDocumentMetadata(output, doc, archival);
+  if (archival) addArchivalProfile(output);
+  const name = `${fileBaseName(doc.title)}.pdf`;
+  if (!options.protection) return new File([output.output('blob')], name, { type: 'application/pdf' });
+  const encrypted = await protectPDF(new Uint8Array(output.output('arraybuffer')), options.protection);
+  return new File([encrypted], name, { type: 'application/pdf' });
 };
 
-export const downloadSinglePage = async (page: ScannedPage, title: string, format: 'jpeg' | 'png' | 'webp') => {
+export const exportSinglePage = async (page: ScannedPage, title: string, format: 'jpeg' | 'png' | 'webp'): Promise<File> => {
   let data = page.processedDataUrl;
   
   // Convert if the requested format doesn't match the source (usually jpeg)
@@ -90,17 +310,12 @@ export const downloadSinglePage = async (page: ScannedPage, title: string, forma
     data = await convertToFormat(data, format);
   }
 
-  const link = document.createElement('a');
-  link.href = data;
-  link.download = `${title.replace(/\s+/g, '_')}.${format}`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  return new File([await dataUrlToBlob(data)], `${fileBaseName(title)}.${format}`, { type: `image/${format}` });
 };
 
-export const exportToZIP = async (doc: DocumentData, format: 'jpeg' | 'png' | 'webp' = 'jpeg') => {
+export const exportToZIP = async (doc: DocumentData, format: 'jpeg' | 'png' | 'webp' = 'jpeg'): Promise<File> => {
   const zip = new JSZip();
-  const folder = zip.folder(doc.title.replace(/\s+/g, '_')) || zip;
+  const folder = zip.folder(fileBaseName(doc.title)) || zip;
 
   // Add Images
   // We use Promise.all to handle potential async canvas conversions
@@ -122,21 +337,17 @@ export const exportToZIP = async (doc: DocumentData, format: 'jpeg' | 'png' | 'w
   let metaContent = `Title: ${doc.title}\nDate: ${new Date(doc.createdAt).toLocaleString()}\nCategory: ${doc.category}\n\n`;
   if (doc.aiSummary) metaContent += `--- AI Summary ---\n${doc.aiSummary}\n\n`;
   if (doc.translation) metaContent += `--- Translation (${doc.translation.targetLang}) ---\n${doc.translation.text}\n`;
+  const notes = doc.pages.flatMap((page, index) =>
+    (page.annotations ?? []).filter(a => a.type === 'NOTE' && a.text).map(a => `Page ${index + 1}: ${a.text}`));
+  if (notes.length > 0) metaContent += `\n--- Notes ---\n${notes.join('\n')}\n`;
   
   folder.file("info.txt", metaContent);
 
   const content = await zip.generateAsync({ type: "blob" });
-  
-  // Trigger Download
-  const link = document.createElement('a');
-  link.href = URL.createObjectURL(content);
-  link.download = `${doc.title.replace(/\s+/g, '_')}_images.zip`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  return new File([content], `${fileBaseName(doc.title)}_images.zip`, { type: 'application/zip' });
 };
 
-export const exportToTXT = (doc: DocumentData) => {
+export const exportToTXT = (doc: DocumentData): File => {
   let content = `${doc.title}\n${new Date(doc.createdAt).toLocaleDateString()}\n========================\n\n`;
   
   if (doc.aiSummary) {
@@ -149,11 +360,31 @@ export const exportToTXT = (doc: DocumentData) => {
     content += `[ Translation - ${doc.translation.targetLang} ]\n${doc.translation.text}\n\n`;
   }
 
-  const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
-  const link = document.createElement("a");
-  link.href = URL.createObjectURL(blob);
-  link.download = `${doc.title.replace(/\s+/g, '_')}.txt`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-};
\ No newline at end of file
+  return new File([content], `${fileBaseName(doc.title)}.txt`, { type: "text/plain;charset=utf-8" });
+};
+
+// Text cells starting like a formula get a leading apostrophe so spreadsheets show them instead of
+// running them (OCR and model output is untrusted). Numbers are left as numbers, negatives included.
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per line item (document-level fields repeated), ready for expense spreadsheets
+export const exportToCSV = (doc: DocumentData): File => {
+  const expense = doc.expense;
+  if (!expense) throw new Error("Document has no expense data");
+
+  const header = ['Vendor', 'Date', 'Invoice Number', 'Currency', 'Description', 'Quantity', 'Unit Price', 'Amount', 'Subtotal', 'Tax', 'Total', 'Document'];
+  const items = expense.lineItems.length > 0 ? expense.lineItems : [{ description: '' }];
+  const rows = items.map(item => [
+    expense.vendor, expense.date, expense.invoiceNumber, expense.currency,
+    item.description, item.quantity, item.unitPrice, item.amount,
+    expense.subtotal, expense.tax, expense.total, doc.title
+  ]);
+
+  const content = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+  // BOM so Excel opens UTF-8 vendor names correctly
+  return new File(['﻿' + content], `${fileBaseName(doc.title)}.csv`, { type: "text/csv;charset=utf-8" });
+};
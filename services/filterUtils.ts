@@ -0,0 +1,173 @@
+// Pure pixel filters for document enhancement.
+// Everything here works on plain { data, width, height } buffers (no canvas), so it can be
+// run on decoded fixture images outside the browser.
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Sauvola parameters: k controls how far below the local mean ink must be, R is the max std-dev for 8-bit
+const SAUVOLA_K = 0.2;
+const SAUVOLA_R = 128;
+
+export const toLuminance = ({ data, width, height }: PixelBuffer): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Estimates the paper brightness at every pixel: per-block maxima (paper is the brightest thing
+ * in any block) smoothed on the block grid and bilinearly upsampled.
+ */
+export const estimateBackground = (gray: Float32Array, width: number, height: number): Float32Array => {
+  const block = Math.max(8, Math.round(Math.min(width, height) / 40));
+  const bw = Math.ceil(width / block);
+  const bh = Math.ceil(height / block);
+
+  let grid = new Float32Array(bw * bh);
+  for (let y = 0; y < height; y++) {
+    const by = Math.floor(y / block);
+    for (let x = 0; x < width; x++) {
+      const b = by * bw + Math.floor(x / block);
+      if (gray[y * width + x] > grid[b]) grid[b] = gray[y * width + x];
+    }
+  }
+
+  // Two 3x3 mean passes so single blocks full of ink don't punch holes in the background
+  for (let pass = 0; pass < 2; pass++) {
+    const next = new Float32Array(bw * bh);
+    for (let y = 0; y < bh; y++) {
+      for (let x = 0; x < bw; x++) {
+        let sum = 0, count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx, ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= bw || ny >= bh) continue;
+            sum += grid[ny * bw + nx];
+            count++;
+          }
+        }
+        next[y * bw + x] = sum / count;
+      }
+    }
+    grid = next;
+  }
+
+  const background = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(bh - 1, Math.max(0, (y + 0.5) / block - 0.5));
+    const y0 = Math.floor(gy), y1 = Math.min(bh - 1, y0 + 1), fy = gy - y0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(bw - 1, Math.max(0, (x + 0.5) / block - 0.5));
+      const x0 = Math.floor(gx), x1 = Math.min(bw - 1, x0 + 1), fx = gx - x0;
+      const top = grid[y0 * bw + x0] + (grid[y0 * bw + x1] - grid[y0 * bw + x0]) * fx;
+      const bottom = grid[y1 * bw + x0] + (grid[y1 * bw + x1] - grid[y1 * bw + x0]) * fx;
+      background[y * width + x] = top + (bottom - top) * fy;
+    }
+  }
+  return background;
+};
+
+// Divides out the background so shadows and lamp falloff become uniform white paper
+export const flattenBackground = (gray: Float32Array, width: number, height: number): Float32Array => {
+  const background = estimateBackground(gray, width, height);
+  const out = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    out[i] = Math.min(255, (gray[i] * 255) / Math.max(1, background[i]));
+  }
+  return out;
+};
+
+// Linearly maps the [low, high] percentiles of the histogram onto [0, 255]
+export const contrastStretch = (gray: Float32Array, lowPercentile = 0.01, highPercentile = 0.99): Float32Array => {
+  const hist = new Uint32Array(256);
+  for (let i = 0; i < gray.length; i++) hist[Math.min(255, Math.max(0, gray[i] | 0))]++;
+
+  const lowCount = gray.length * lowPercentile;
+  const highCount = gray.length * highPercentile;
+  let low = 0, high = 255, acc = 0;
+  for (let v = 0; v < 256; v++) {
+    acc += hist[v];
+    if (acc <= lowCount) low = v;
+    if (acc < highCount) high = v + 1;
+  }
+  const range = Math.max(1, Math.min(255, high) - low);
+
+  const out = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    out[i] = Math.min(255, Math.max(0, ((gray[i] - low) * 255) / range));
+  }
+  return out;
+};
+
+/**
+ * Sauvola local binarization using integral images of the values and their squares,
+ * so the cost is O(pixels) regardless of window size. Returns 0 (ink) or 255 (paper).
+ */
+export const sauvolaThreshold = (
+  gray: Float32Array,
+  width: number,
+  height: number,
+  windowSize = Math.max(15, (Math.round(Math.min(width, height) / 24) | 1)),
+  k = SAUVOLA_K
+): Uint8Array => {
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const sumSq = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0, rowSq = 0;
+    for (let x = 0; x < width; x++) {
+      const v = gray[y * width + x];
+      rowSum += v;
+      rowSq += v * v;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1] + rowSq;
+    }
+  }
+
+  const half = windowSize >> 1;
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+      const n = (x1 - x0) * (y1 - y0);
+      const s = sum[y1 * stride + x1] - sum[y0 * stride + x1] - sum[y1 * stride + x0] + sum[y0 * stride + x0];
+      const sq = sumSq[y1 * stride + x1] - sumSq[y0 * stride + x1] - sumSq[y1 * stride + x0] + sumSq[y0 * stride + x0];
+      const mean = s / n;
+      const std = Math.sqrt(Math.max(0, sq / n - mean * mean));
+      const threshold = mean * (1 + k * (std / SAUVOLA_R - 1));
+      out[y * width + x] = gray[y * width + x] > threshold ? 255 : 0;
+    }
+  }
+  return out;
+};
+
+const writeGray = (target: PixelBuffer, values: ArrayLike<number>) => {
+  const { data } = target;
+  for (let i = 0; i < values.length; i++) {
+    data[i * 4] = values[i];
+    data[i * 4 + 1] = values[i];
+    data[i * 4 + 2] = values[i];
+  }
+};
+
+// "Magic" scan look: shadow-free paper with stretched contrast, still grayscale rather than binary
+export const applyMagicEnhance = (image: PixelBuffer) => {
+  const { width, height } = image;
+  const flat = flattenBackground(toLuminance(image), width, height);
+  writeGray(image, contrastStretch(flat, 0.02, 0.9));
+};
+
+// Pure black & white, thresholded locally so uneven lighting doesn't swallow text
+export const applyAdaptiveBW = (image: PixelBuffer) => {
+  const { width, height } = image;
+  const flat = flattenBackground(toLuminance(image), width, height);
+  writeGray(image, sauvolaThreshold(flat, width, height));
+};
@@ -1,36 +1,166 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { DocumentData } from "../types";
+import { OcrWord, PageOcr } from "../types";
+import { AIProvider, AISettings, ANALYSIS_PROMPT, EXPENSE_PROMPT, buildSummaryPrompt, buildTranslationPrompt, toDocumentAnalysis, toExpenseData } from "./aiProvider";
 
-// NOTE: In a real production app, handle keys securely. 
-// For this client-side demo, we use the env var provided by the system.
-const API_KEY = process.env.API_KEY || '';
+// NOTE: In a real production app, handle keys securely.
+// For this client-side demo, the build-time env key is used unless one is set in Settings.
+const ENV_API_KEY = process.env.API_KEY || '';
+const DEFAULT_MODEL = "gemini-2.5-flash";
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-export const analyzeDocument = async (base64Image: string): Promise<{ title: string; category: string; summary: string }> => {
-  if (!API_KEY) {
-    throw new Error("API Key missing");
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A short, descriptive filename for the document" },
+    category: { type: Type.STRING, description: "The type of document" },
+    summary: { type: Type.STRING, description: "Extracted text and summary of the content" },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 5 short lowercase tags" }
   }
+};
+
+// A word as the OCR schema asks for it: box_2d is [ymin, xmin, ymax, xmax] on a 0-1000 scale
+interface BoxedWord {
+  text: string;
+  box_2d: [number, number, number, number];
+}
+
+const isBoxedWord = (value: unknown): value is BoxedWord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { text, box_2d } = value as Record<string, unknown>;
+  return typeof text === 'string' && text !== '' &&
+    Array.isArray(box_2d) && box_2d.length === 4 && box_2d.every(v => typeof v === 'number' && isFinite(v));
+};
+
+const stripDataUrlHeader = (base64Image: string) => base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+
+export const createGeminiProvider = (settings: AISettings): AIProvider => {
+  const apiKey = settings.apiKey || ENV_API_KEY;
+  const model = settings.model || DEFAULT_MODEL;
+  const ai = new GoogleGenAI({ apiKey });
+
+  const requireKey = () => {
+    if (!apiKey) throw new Error("API Key missing");
+  };
+
+  const analyzeDocument = async (base64Image: string) => {
+    requireKey();
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: "image/jpeg",
+                data: stripDataUrlHeader(base64Image)
+              }
+            },
+            { text: ANALYSIS_PROMPT }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: ANALYSIS_SCHEMA
+        }
+      });
+
+      return toDocumentAnalysis(JSON.parse(response.text || '{}'));
+    } catch (error) {
+      // Let the caller keep whatever it already has (e.g. local OCR text) instead of a placeholder
+      console.error("Gemini Analysis Failed:", error);
+      throw error;
+    }
+  };
+
+  const summarizeText = async (text: string) => {
+    requireKey();
+    const response = await ai.models.generateContent({
+      model,
+      contents: buildSummaryPrompt(text),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_SCHEMA
+      }
+    });
+    return toDocumentAnalysis(JSON.parse(response.text || '{}'));
+  };
+
+  const translateText = async (text: string, targetLang: string, sourceLang: string = 'Auto') => {
+    requireKey();
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildTranslationPrompt(text, targetLang, sourceLang),
+      });
+      return response.text || "Translation empty.";
+    } catch (error) {
+      console.error("Translation Failed:", error);
+      return "Translation failed. Please try again.";
+    }
+  };
+
+  const extractExpense = async (base64Image: string) => {
+    requireKey();
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: "image/jpeg",
+              data: stripDataUrlHeader(base64Image)
+            }
+          },
+          { text: EXPENSE_PROMPT }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            vendor: { type: Type.STRING },
+            date: { type: Type.STRING, description: "YYYY-MM-DD" },
+            currency: { type: Type.STRING, description: "ISO 4217 code" },
+            subtotal: { type: Type.NUMBER },
+            tax: { type: Type.NUMBER },
+            total: { type: Type.NUMBER },
+            invoiceNumber: { type: Type.STRING },
+            lineItems: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  description: { type: Type.STRING },
+                  quantity: { type: Type.NUMBER },
+                  unitPrice: { type: Type.NUMBER },
+                  amount: { type: Type.NUMBER }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+    return toExpenseData(JSON.parse(response.text || '{}'));
+  };
 
-  // Clean the base64 string if it contains the header
-  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+  // Word-level OCR with bounding boxes (Gemini reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid)
+  const extractWords = async (base64Image: string): Promise<PageOcr> => {
+    requireKey();
 
-  try {
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model,
       contents: {
         parts: [
           {
             inlineData: {
               mimeType: "image/jpeg",
-              data: cleanBase64
+              data: stripDataUrlHeader(base64Image)
             }
           },
           {
-            text: `Analyze this scanned document image. 
-            1. Identify the document category (e.g., Receipt, Invoice, Business Card, Handwritten Note, Contract, Whiteboard).
-            2. Extract the most important text (OCR) to create a short summary.
-            3. Generate a concise, descriptive title based on the content (e.g., "Home Depot Receipt", "Project Alpha Notes").`
+            text: `Transcribe every word on this scanned page in reading order.
+For each word return its exact text and its bounding box as box_2d [ymin, xmin, ymax, xmax], normalized to 0-1000.`
           }
         ]
       },
@@ -39,47 +169,41 @@ export const analyzeDocument = async (base64Image: string): Promise<{ title: str
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            title: { type: Type.STRING, description: "A short, descriptive filename for the document" },
-            category: { type: Type.STRING, description: "The type of document" },
-            summary: { type: Type.STRING, description: "Extracted text and summary of the content" }
+            words: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING },
+                  box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+                }
+              }
+            }
           }
         }
       }
     });
 
-    const result = JSON.parse(response.text || '{}');
-    return {
-      title: result.title || "Untitled Scan",
-      category: result.category || "General",
-      summary: result.summary || "No text detected."
-    };
-  } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
-    return {
-      title: "Scanned Document",
-      category: "Uncategorized",
-      summary: "AI Analysis failed or offline."
-    };
-  }
-};
+    const result: unknown = JSON.parse(response.text || '{}');
+    const rawWords: unknown = typeof result === 'object' && result !== null ? (result as Record<string, unknown>).words : undefined;
+    const words: OcrWord[] = (Array.isArray(rawWords) ? rawWords : [])
+      .filter(isBoxedWord)
+      .map(w => {
+        const [ymin, xmin, ymax, xmax] = w.box_2d.map(v => Math.min(1000, Math.max(0, v)) / 1000);
+        return { text: w.text, x: xmin, y: ymin, width: Math.max(0, xmax - xmin), height: Math.max(0, ymax - ymin) };
+      });
 
-export const translateText = async (text: string, targetLang: string, sourceLang: string = 'Auto'): Promise<string> => {
-  if (!API_KEY) throw new Error("API Key missing");
-  
-  const prompt = `Translate the following text from ${sourceLang} to ${targetLang}. 
-  Return only the translated text. Do not add any conversational preamble.
-  
-  Text:
-  "${text}"`;
+    return { text: words.map(w => w.text).join(' '), words };
+  };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
-    return response.text || "Translation empty.";
-  } catch (error) {
-    console.error("Translation Failed:", error);
-    return "Translation failed. Please try again.";
-  }
-};
\ No newline at end of file
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    isConfigured: () => !!apiKey,
+    analyzeDocument,
+    summarizeText,
+    translateText,
+    extractExpense,
+    extractWords
+  };
+};
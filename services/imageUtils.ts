@@ -1,18 +1,45 @@
-import { FilterType } from '../types';
+import { Annotation, FilterType, Point } from '../types';
+import { warpPerspective } from './perspectiveUtils';
+import { applyMagicEnhance, applyAdaptiveBW } from './filterUtils';
+import { drawAnnotations, loadAnnotationImages } from './annotationUtils';
+
+// Returns a canvas holding the perspective-corrected page, or the image itself if no crop applies
+const cropToCorners = (img: HTMLImageElement, corners?: Point[]): HTMLImageElement | HTMLCanvasElement => {
+  if (!corners || corners.length !== 4) return img;
+
+  const srcCanvas = document.createElement('canvas');
+  srcCanvas.width = img.width;
+  srcCanvas.height = img.height;
+  const srcCtx = srcCanvas.getContext('2d');
+  if (!srcCtx) return img;
+  srcCtx.drawImage(img, 0, 0);
+
+  const warped = warpPerspective(srcCtx.getImageData(0, 0, img.width, img.height), corners);
+  const out = document.createElement('canvas');
+  out.width = warped.width;
+  out.height = warped.height;
+  out.getContext('2d')?.putImageData(warped, 0, 0);
+  return out;
+};
 
 export const processImage = async (
   dataUrl: string,
   filter: FilterType,
   rotation: number,
-  highlightsLayer?: string
+  highlightsLayer?: string,
+  corners?: Point[],
+  annotations?: Annotation[]
 ): Promise<string> => {
   return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
+    const loaded = new Image();
+    loaded.onload = async () => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       if (!ctx) return resolve(dataUrl);
 
+      // 0. Flatten the page (crop is applied before rotation so corners stay in capture space)
+      const img = cropToCorners(loaded, corners);
+
       // Handle Rotation Dimensions
       if (rotation === 90 || rotation === 270) {
         canvas.width = img.height;
@@ -33,7 +60,7 @@ export const processImage = async (
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
       const data = imageData.data;
 
-      if (filter === FilterType.GRAYSCALE || filter === FilterType.MAGIC_ENHANCE || filter === FilterType.BW) {
+      if (filter === FilterType.GRAYSCALE) {
         for (let i = 0; i < data.length; i += 4) {
           const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
           data[i] = avg;     // R
@@ -43,31 +70,29 @@ export const processImage = async (
       }
 
       if (filter === FilterType.MAGIC_ENHANCE) {
-        // Simple adaptive thresholding simulation (Contrast stretch)
-        for (let i = 0; i < data.length; i += 4) {
-          let v = data[i];
-          v = v < 128 ? v * 0.8 : v * 1.2;
-          if (v > 255) v = 255;
-          if (v < 0) v = 0;
-          data[i] = v;
-          data[i + 1] = v;
-          data[i + 2] = v;
-        }
+        // Background flattening + contrast stretch
+        applyMagicEnhance(imageData);
       }
 
       if (filter === FilterType.BW) {
-        // Strict Binarization
-        for (let i = 0; i < data.length; i += 4) {
-          const v = data[i] > 128 ? 255 : 0;
-          data[i] = v;
-          data[i + 1] = v;
-          data[i + 2] = v;
-        }
+        // Local (Sauvola) binarization on the flattened page
+        applyAdaptiveBW(imageData);
       }
 
       ctx.putImageData(imageData, 0, 0);
 
-      // 3. Overlay Highlights (if present)
+      // 3. Flatten annotations, drawn in unrotated page space so they turn with the page
+      if (annotations && annotations.length > 0) {
+        const images = await loadAnnotationImages(annotations);
+        ctx.save();
+        ctx.translate(canvas.width / 2, canvas.height / 2);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.translate(-img.width / 2, -img.height / 2);
+        drawAnnotations(ctx, annotations, img.width, img.height, images);
+        ctx.restore();
+      }
+
+      // 4. Overlay legacy raster highlights (if present)
       // We assume highlightsLayer is already in the correct orientation for the final canvas
       if (highlightsLayer) {
         const hlImg = new Image();
@@ -85,9 +110,38 @@ export const processImage = async (
         resolve(canvas.toDataURL('image/jpeg', 0.85));
       }
     };
-    img.src = dataUrl;
+    loaded.src = dataUrl;
   });
 };
 
 export const generateId = () => Math.random().toString(36).substr(2, 9);
-export const formatDate = (ts: number) => new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
\ No newline at end of file
+export const formatDate = (ts: number) => new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Small JPEG used by the dashboard so the library list never decodes full-resolution pages
+export const createThumbnail = (dataUrl: string, maxSize = 240): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas unavailable"));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Thumbnail encoding failed")), 'image/jpeg', 0.8);
+    };
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = dataUrl;
+  });
+};
@@ -0,0 +1,134 @@
+// Worker is bundled as an app asset like the OCR engine, so PDF import works offline
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { FilterType, ScannedPage } from "../types";
+import { findDocumentCorners } from "./edgeDetection";
+import { generateId, processImage } from "./imageUtils";
+import { ProgressCallback } from "./analysisService";
+
+// Turns files from the picker or drag-and-drop into pages shaped exactly like camera captures.
+
+export const IMPORT_ACCEPT = 'image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif,application/pdf,.pdf';
+
+// Long side cap for imported photos and rendered PDF pages (about a 1080p camera frame's detail)
+const MAX_IMPORT_DIMENSION = 2400;
+// 144 dpi, sharp enough for OCR and printing
+const PDF_RENDER_SCALE = 2;
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+const isHeic = (file: File) => /^image\/hei[cf]$/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+export const isImportable = (file: File) => isPdf(file) || isHeic(file) || /^image\/(jpeg|png|webp)$/.test(file.type);
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const scale = Math.min(1, MAX_IMPORT_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Only Safari decodes HEIC natively; everywhere else the (large) converter is loaded on demand
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file);
+  } catch (error) {
+    if (!isHeic(file)) throw error;
+    const { default: heic2any } = await import("heic2any");
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.9 });
+    return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+  }
+};
+
+// Photos get the same page detection as a camera capture; the original stays untouched
+const imageToPage = async (file: File): Promise<ScannedPage> => {
+  const bitmap = await decodeImage(file);
+  const canvas = drawScaled(bitmap, bitmap.width, bitmap.height);
+  bitmap.close();
+
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+  const corners = findDocumentCorners(canvas, canvas.width, canvas.height) ?? undefined;
+  const processed = corners ? await processImage(dataUrl, FilterType.ORIGINAL, 0, undefined, corners) : dataUrl;
+  return { id: generateId(), originalDataUrl: dataUrl, processedDataUrl: processed, filter: FilterType.ORIGINAL, rotation: 0, corners };
+};
+
+// PDF pages are already flat, so they're rasterized as-is without page detection
+const pdfToPages = async (file: File): Promise<ScannedPage[]> => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  try {
+    const pages: ScannedPage[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const unscaled = page.getViewport({ scale: 1 });
+      const scale = Math.min(PDF_RENDER_SCALE, MAX_IMPORT_DIMENSION / Math.max(unscaled.width, unscaled.height));
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      page.cleanup();
+
+      const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+      pages.push({ id: generateId(), originalDataUrl: dataUrl, processedDataUrl: dataUrl, filter: FilterType.ORIGINAL, rotation: 0 });
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Converts files to pages in the order given (PDFs expand to one page each).
+ * Unsupported files should be filtered out with `isImportable` first.
+ */
+export const importFiles = async (files: File[], onProgress?: ProgressCallback): Promise<ScannedPage[]> => {
+  const pages: ScannedPage[] = [];
+  for (let i = 0; i < files.length; i++) {
+    pages.push(...(isPdf(files[i]) ? await pdfToPages(files[i]) : [await imageToPage(files[i])]));
+    onProgress?.(i + 1, files.length);
+  }
+  return pages;
+};
+
+// Must match serviceWorker.ts
+const SHARE_CACHE_NAME = 'openscan-shared';
+
+// Files POSTed to the share target and stashed by the service worker; each share is handed out once
+export const takeSharedFiles = async (): Promise<File[]> => {
+  if (!('caches' in window) || !(await caches.has(SHARE_CACHE_NAME))) return [];
+  const cache = await caches.open(SHARE_CACHE_NAME);
+  const requests = await cache.keys();
+  const files = await Promise.all(requests.map(async (request): Promise<File | null> => {
+    // An entry can disappear between keys() and match() (e.g. evicted by the browser)
+    const response = await cache.match(request);
+    if (!response) return null;
+    const blob = await response.blob();
+    return new File([blob], decodeURIComponent(response.headers.get('X-File-Name') || 'shared'), { type: blob.type });
+  }));
+  await caches.delete(SHARE_CACHE_NAME);
+  return files.filter((file): file is File => file !== null);
+};
+
+// The parts of the File Handling API's launch queue used here (not in the DOM typings yet)
+interface LaunchParams {
+  files?: readonly FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void;
+}
+
+// Files opened with the installed app from the OS ("Open with", registered as file_handlers in the manifest)
+export const onLaunchFiles = (consumer: (files: File[]) => void) => {
+  const { launchQueue } = window as Window & { launchQueue?: LaunchQueue };
+  launchQueue?.setConsumer(async params => {
+    if (!params.files?.length) return;
+    consumer(await Promise.all(params.files.map(handle => handle.getFile())));
+  });
+};
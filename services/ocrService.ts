@@ -0,0 +1,80 @@
+import { createWorker, Worker } from "tesseract.js";
+// Engine and WASM core are bundled as app assets, and the English model is served from /tessdata
+// (see vite.config.ts), so OCR never touches the network
+import workerUrl from "tesseract.js/dist/worker.min.js?url";
+import coreSimdUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import coreUrl from "tesseract.js-core/tesseract-core-lstm.wasm.js?url";
+import { OcrWord, PageOcr } from "../types";
+import { getAIProvider } from "./aiService";
+
+// Minimal module using a SIMD instruction; validates only where WASM SIMD is supported
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+// tesseract.js 6 wants a language code plus a directory serving `<code>.traineddata.gz`;
+// passing the model data itself gets it treated as the language name
+export const OCR_LANGUAGE = 'eng';
+export const languageOptions = (langPath: string) => ({ langPath, gzip: true });
+
+let workerPromise: Promise<Worker> | null = null;
+
+// One long-lived tesseract worker, created on first use
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    // The worker resolves langPath against its own script URL, so it has to be absolute
+    workerPromise = createWorker(OCR_LANGUAGE, 1, {
+      workerPath: workerUrl,
+      corePath: WebAssembly.validate(SIMD_PROBE) ? coreSimdUrl : coreUrl,
+      ...languageOptions(new URL(`${import.meta.env.BASE_URL}tessdata`, window.location.href).href),
+      cacheMethod: 'none'
+    });
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+const getImageSize = (dataUrl: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = dataUrl;
+  });
+};
+
+// On-device recognition; word boxes are normalized to the image size like every other PageOcr
+export const recognizeLocally = async (dataUrl: string): Promise<PageOcr> => {
+  const [worker, size] = await Promise.all([getWorker(), getImageSize(dataUrl)]);
+  const { data } = await worker.recognize(dataUrl, {}, { text: true, blocks: true });
+
+  const words: OcrWord[] = [];
+  for (const block of data.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          if (!word.text.trim()) continue;
+          words.push({
+            text: word.text,
+            x: word.bbox.x0 / size.width,
+            y: word.bbox.y0 / size.height,
+            width: (word.bbox.x1 - word.bbox.x0) / size.width,
+            height: (word.bbox.y1 - word.bbox.y0) / size.height
+          });
+        }
+      }
+    }
+  }
+
+  return { text: data.text.trim(), words };
+};
+
+// Single entry point for text recognition: local engine first, the AI provider only if it fails and can do OCR
+export const recognizePage = async (dataUrl: string): Promise<PageOcr> => {
+  try {
+    return await recognizeLocally(dataUrl);
+  } catch (error) {
+    const provider = getAIProvider();
+    if (!provider.extractWords || !provider.isConfigured()) throw error;
+    console.warn(`Local OCR failed, falling back to ${provider.label}:`, error);
+    return provider.extractWords(dataUrl);
+  }
+};
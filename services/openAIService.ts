@@ -0,0 +1,89 @@
+import { AIProvider, AISettings, ANALYSIS_PROMPT, EXPENSE_PROMPT, buildSummaryPrompt, buildTranslationPrompt, parseJSONReply, toDocumentAnalysis, toExpenseData } from "./aiProvider";
+
+// Talks to any server implementing the OpenAI chat completions API:
+// company model gateways, self-hosted local model servers, or a mock server for testing.
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+export const createOpenAIProvider = (settings: AISettings): AIProvider => {
+  const baseUrl = settings.endpoint.trim().replace(/\/+$/, '');
+  const model = settings.model || DEFAULT_MODEL;
+
+  const requireEndpoint = () => {
+    if (!baseUrl) throw new Error("Endpoint missing");
+  };
+
+  const chat = async (content: ChatContent, json: boolean): Promise<string> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        ...(json ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`AI endpoint returned ${response.status}: ${await response.text()}`);
+    }
+    const result = await response.json();
+    return result.choices?.[0]?.message?.content || '';
+  };
+
+  const analyzeDocument = async (base64Image: string) => {
+    requireEndpoint();
+    try {
+      const reply = await chat([
+        { type: 'text', text: `${ANALYSIS_PROMPT}\nRespond with a JSON object with the string fields "title", "category", "summary" and a "tags" array of strings.` },
+        { type: 'image_url', image_url: { url: base64Image } }
+      ], true);
+      return toDocumentAnalysis(parseJSONReply(reply));
+    } catch (error) {
+      console.error("OpenAI-compatible Analysis Failed:", error);
+      throw error;
+    }
+  };
+
+  const summarizeText = async (text: string) => {
+    requireEndpoint();
+    const reply = await chat(`${buildSummaryPrompt(text)}\nRespond with a JSON object with the string fields "title", "category", "summary" and a "tags" array of strings.`, true);
+    return toDocumentAnalysis(parseJSONReply(reply));
+  };
+
+  const translateText = async (text: string, targetLang: string, sourceLang: string = 'Auto') => {
+    requireEndpoint();
+    try {
+      return (await chat(buildTranslationPrompt(text, targetLang, sourceLang), false)) || "Translation empty.";
+    } catch (error) {
+      console.error("Translation Failed:", error);
+      return "Translation failed. Please try again.";
+    }
+  };
+
+  const extractExpense = async (base64Image: string) => {
+    requireEndpoint();
+    const reply = await chat([
+      {
+        type: 'text',
+        text: `${EXPENSE_PROMPT}\nRespond with a JSON object with the fields vendor, date, currency, subtotal, tax, total, invoiceNumber and lineItems (array of {description, quantity, unitPrice, amount}).`
+      },
+      { type: 'image_url', image_url: { url: base64Image } }
+    ], true);
+    return toExpenseData(parseJSONReply(reply));
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    isConfigured: () => !!baseUrl,
+    analyzeDocument,
+    summarizeText,
+    translateText,
+    extractExpense
+  };
+};
@@ -0,0 +1,18 @@
+import { ScannedPage } from "../types";
+
+export type ScanMode = 'SINGLE' | 'BATCH';
+
+/**
+ * What a shutter press does with the new page: start a document of its own, or join the batch.
+ * While pages are being added to an open document (`insertIndex` set) captures always go to the
+ * batch, whatever the mode says, so the document being edited is never replaced.
+ */
+export const captureTarget = (mode: ScanMode, insertIndex: number | null): 'NEW_DOCUMENT' | 'BATCH' =>
+  insertIndex !== null || mode === 'BATCH' ? 'BATCH' : 'NEW_DOCUMENT';
+
+// Page list with `inserted` placed before the page at `index` (appended when index is past the end)
+export const insertPages = (pages: ScannedPage[], index: number, inserted: ScannedPage[]): ScannedPage[] => [
+  ...pages.slice(0, index),
+  ...inserted,
+  ...pages.slice(index)
+];
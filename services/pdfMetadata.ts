@@ -0,0 +1,231 @@
+import { jsPDF } from "jspdf";
+// Same font pdf.js ships for rendering; bundled as an asset so archival export works offline
+import archivalFontUrl from "pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf?url";
+import { DocumentData } from "../types";
+
+// Document properties, XMP metadata, bookmarks and the PDF/A-1b pieces jsPDF has no API for.
+
+const CREATOR_TOOL = 'Open Scan';
+const ARCHIVAL_FONT = 'LiberationSans';
+const SRGB_NAME = 'sRGB IEC61966-2.1';
+
+// Low-level writer calls that jsPDF's own plugins use but its type definitions leave out
+interface PdfWriter {
+  newObject(): number;
+  write(...lines: string[]): void;
+  putStream(options: { data: string; objectId: number; filters?: string[]; additionalKeyValues?: { key: string; value: string | number }[] }): void;
+  events: { subscribe(topic: string, callback: () => void): void };
+}
+
+const writerOf = (pdf: jsPDF) => pdf.internal as unknown as PdfWriter;
+
+const toBinaryString = (bytes: Uint8Array) => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Local time with offset, to the second: must describe the same instant as jsPDF's Info /CreationDate
+const xmpDate = (date: Date) => {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}T${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`
+    + `${sign}${pad2(Math.floor(Math.abs(offset) / 60))}:${pad2(Math.abs(offset) % 60)}`;
+};
+
+// Stream objects are written after the page resources and referenced from the catalog
+const addCatalogStream = (pdf: jsPDF, data: string, keys: { key: string; value: string | number }[], catalogEntry: (objectId: number) => string) => {
+  const writer = writerOf(pdf);
+  let objectId = 0;
+  writer.events.subscribe('postPutResources', () => {
+    objectId = writer.newObject();
+    writer.putStream({ data, objectId, filters: [], additionalKeyValues: keys });
+    writer.write('endobj');
+  });
+  writer.events.subscribe('putCatalog', () => {
+    if (objectId) writer.write(catalogEntry(objectId));
+  });
+};
+
+interface PdfProperties {
+  title: string;
+  subject: string;
+  keywords: string[];
+  createdAt: Date;
+}
+
+// XMP mirror of the Info dictionary; PDF/A requires the two to agree
+const buildXmp = (props: PdfProperties, archival: boolean) => {
+  const keywords = props.keywords.join(', ');
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about=""
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+  xmlns:pdf="http://ns.adobe.com/pdf/1.3/"${archival ? '\n  xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"' : ''}>
+<dc:format>application/pdf</dc:format>
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(props.title)}</rdf:li></rdf:Alt></dc:title>
+${props.subject ? `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(props.subject)}</rdf:li></rdf:Alt></dc:description>\n` : ''}${props.keywords.length ? `<dc:subject><rdf:Bag>${props.keywords.map(k => `<rdf:li>${escapeXml(k)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>\n<pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>\n` : ''}<xmp:CreateDate>${xmpDate(props.createdAt)}</xmp:CreateDate>
+<xmp:CreatorTool>${CREATOR_TOOL}</xmp:CreatorTool>
+<pdf:Producer>jsPDF ${jsPDF.version}</pdf:Producer>
+${archival ? '<pdfaid:part>1</pdfaid:part>\n<pdfaid:conformance>B</pdfaid:conformance>\n' : ''}</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+/**
+ * Writes the document's title, category, tags and scan date into the PDF Info dictionary and
+ * an XMP metadata stream, and bookmarks every page of multi-page documents.
+ */
+export const addDocumentMetadata = (pdf: jsPDF, doc: DocumentData, archival = false) => {
+  const props: PdfProperties = {
+    title: doc.title,
+    subject: doc.category && doc.category !== 'Uncategorized' ? doc.category : '',
+    keywords: doc.tags || [],
+    createdAt: new Date(Math.floor(doc.createdAt / 1000) * 1000)
+  };
+
+  pdf.setDocumentProperties({
+    title: props.title,
+    subject: props.subject,
+    keywords: props.keywords.join(', '),
+    creator: CREATOR_TOOL
+  });
+  pdf.setCreationDate(props.createdAt);
+
+  const xmp = toBinaryString(new TextEncoder().encode(buildXmp(props, archival)));
+  addCatalogStream(pdf, xmp, [{ key: 'Type', value: '/Metadata' }, { key: 'Subtype', value: '/XML' }], id => `/Metadata ${id} 0 R`);
+
+  if (doc.pages.length > 1) {
+    // Named after the page's first line of recognized text (usually its heading) when there is one
+    doc.pages.forEach((page, i) => {
+      const heading = page.ocr?.text.split('\n').map(line => line.trim()).find(line => line.length >= 3);
+      const title = heading ? `Page ${i + 1}: ${heading.length > 60 ? `${heading.slice(0, 57)}...` : heading}` : `Page ${i + 1}`;
+      pdf.outline.add(null, title, { pageNumber: i + 1 });
+    });
+    pdf.setDisplayMode('fullwidth', 'continuous', 'UseOutlines');
+  }
+};
+
+// --- PDF/A ---
+
+const s15Fixed16 = (view: DataView, offset: number, value: number) => view.setInt32(offset, Math.round(value * 65536));
+
+// sRGB transfer curve, sampled
+const srgbToLinear = (v: number) => v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+
+/**
+ * Minimal ICC v2 display profile for sRGB (D50-adapted primaries, sampled tone curve),
+ * generated instead of shipped since it's only a few hundred bytes.
+ */
+const buildSrgbProfile = (): Uint8Array => {
+  const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+  const xyz = (x: number, y: number, z: number) => {
+    const view = new DataView(new ArrayBuffer(20));
+    ascii('XYZ ').forEach((c, i) => view.setUint8(i, c));
+    s15Fixed16(view, 8, x);
+    s15Fixed16(view, 12, y);
+    s15Fixed16(view, 16, z);
+    return new Uint8Array(view.buffer);
+  };
+  const curve = () => {
+    const entries = 256;
+    const view = new DataView(new ArrayBuffer(12 + entries * 2));
+    ascii('curv').forEach((c, i) => view.setUint8(i, c));
+    view.setUint32(8, entries);
+    for (let i = 0; i < entries; i++) view.setUint16(12 + i * 2, Math.round(srgbToLinear(i / (entries - 1)) * 65535));
+    return new Uint8Array(view.buffer);
+  };
+  const description = (text: string) => {
+    const view = new DataView(new ArrayBuffer(12 + text.length + 1 + 8 + 3 + 67));
+    ascii('desc').forEach((c, i) => view.setUint8(i, c));
+    view.setUint32(8, text.length + 1);
+    ascii(text).forEach((c, i) => view.setUint8(12 + i, c));
+    return new Uint8Array(view.buffer);
+  };
+  const textTag = (text: string) => new Uint8Array([...ascii('text'), 0, 0, 0, 0, ...ascii(text), 0]);
+
+  const trc = curve();
+  const tags: [string, Uint8Array][] = [
+    ['desc', description(SRGB_NAME)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyz(0.9505, 1, 1.089)],
+    ['rXYZ', xyz(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyz(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyz(0.1431, 0.0606, 0.7141)],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc]
+  ];
+
+  // Tag data follows the header and tag table, 4-byte aligned; the three curves share one copy
+  const align = (n: number) => (n + 3) & ~3;
+  const offsets = new Map<Uint8Array, number>();
+  let size = 128 + 4 + tags.length * 12;
+  for (const [, data] of tags) {
+    if (offsets.has(data)) continue;
+    offsets.set(data, size);
+    size = align(size + data.length);
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, size);
+  view.setUint32(8, 0x02100000); // Version 2.1
+  bytes.set(ascii('mntrRGB XYZ '), 12);
+  [2024, 1, 1, 0, 0, 0].forEach((v, i) => view.setUint16(24 + i * 2, v));
+  bytes.set(ascii('acsp'), 36);
+  s15Fixed16(view, 68, 0.9642); // PCS illuminant (D50)
+  s15Fixed16(view, 72, 1);
+  s15Fixed16(view, 76, 0.8249);
+
+  view.setUint32(128, tags.length);
+  tags.forEach(([signature, data], i) => {
+    const entry = 132 + i * 12;
+    bytes.set(ascii(signature), entry);
+    view.setUint32(entry + 4, offsets.get(data)!);
+    view.setUint32(entry + 8, data.length);
+  });
+  offsets.forEach((offset, data) => bytes.set(data, offset));
+  return bytes;
+};
+
+let archivalFontData: Promise<string> | null = null;
+
+/**
+ * Embeds the archival font and returns its name. PDF/A doesn't allow the standard (unembedded)
+ * fonts, which includes the invisible OCR text layer and the footer.
+ */
+export const embedArchivalFont = async (pdf: jsPDF): Promise<string> => {
+  if (!archivalFontData) {
+    archivalFontData = fetch(archivalFontUrl)
+      .then(response => response.arrayBuffer())
+      .then(buffer => btoa(toBinaryString(new Uint8Array(buffer))));
+    archivalFontData.catch(() => { archivalFontData = null; });
+  }
+  pdf.addFileToVFS(`${ARCHIVAL_FONT}.ttf`, await archivalFontData);
+  pdf.addFont(`${ARCHIVAL_FONT}.ttf`, ARCHIVAL_FONT, 'normal');
+  return ARCHIVAL_FONT;
+};
+
+/**
+ * Marks the file as PDF/A-1b: PDF 1.4 with an sRGB output intent. The caller is responsible for
+ * the content rules (embedded fonts via embedArchivalFont, opaque images, no annotations).
+ */
+export const addArchivalProfile = (pdf: jsPDF) => {
+  (pdf as unknown as { __private__: { setPdfVersion(version: string): void } }).__private__.setPdfVersion('1.4');
+
+  const profile = toBinaryString(buildSrgbProfile());
+  addCatalogStream(pdf, profile, [{ key: 'N', value: 3 }], id =>
+    `/OutputIntents [<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (${SRGB_NAME}) /Info (${SRGB_NAME}) /DestOutputProfile ${id} 0 R >>]`
+  );
+};
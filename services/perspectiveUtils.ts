@@ -0,0 +1,131 @@
+import { Point } from '../types';
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Sorts four points clockwise starting at the top-left: [TL, TR, BR, BL]
+export const orderCorners = (points: Point[]): Point[] => {
+  const cx = points.reduce((s, p) => s + p.x, 0) / points.length;
+  const cy = points.reduce((s, p) => s + p.y, 0) / points.length;
+
+  // In screen space (y down) ascending atan2 walks clockwise
+  const sorted = [...points].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+
+  let start = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].x + sorted[i].y < sorted[start].x + sorted[start].y) start = i;
+  }
+  return [...sorted.slice(start), ...sorted.slice(0, start)];
+};
+
+export const polygonArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+// Size of the flat rectangle a quad (ordered TL, TR, BR, BL) should be warped into
+export const getWarpedSize = (corners: Point[]): { width: number; height: number } => {
+  const [tl, tr, br, bl] = corners;
+  return {
+    width: Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br)))),
+    height: Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br))))
+  };
+};
+
+// Gaussian elimination with partial pivoting for the small systems used below
+const solveLinearSystem = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const div = m[col][col] || 1e-12;
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / div;
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / (m[row][row] || 1e-12);
+  }
+  return x;
+};
+
+// Returns the 3x3 homography (row-major, 9 values) that maps `from[i]` onto `to[i]`
+export const getPerspectiveTransform = (from: Point[], to: Point[]): number[] => {
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solveLinearSystem(A, b), 1];
+};
+
+/**
+ * Warps the quadrilateral `corners` (TL, TR, BR, BL in source pixels) of `source`
+ * into a flat rectangle using bilinear sampling.
+ */
+export const warpPerspective = (source: ImageData, corners: Point[]): ImageData => {
+  const { width, height } = getWarpedSize(corners);
+  const target = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 }
+  ];
+  // Map every destination pixel back into the source (inverse mapping avoids holes)
+  const h = getPerspectiveTransform(target, corners);
+
+  const output = new ImageData(width, height);
+  const out = output.data;
+  const src = source.data;
+  const sw = source.width;
+  const sh = source.height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = (h[0] * x + h[1] * y + h[2]) / w;
+      const sy = (h[3] * x + h[4] * y + h[5]) / w;
+
+      const x0 = Math.min(sw - 1, Math.max(0, Math.floor(sx)));
+      const y0 = Math.min(sh - 1, Math.max(0, Math.floor(sy)));
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = Math.min(1, Math.max(0, sx - x0));
+      const fy = Math.min(1, Math.max(0, sy - y0));
+
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4;
+      const i11 = (y1 * sw + x1) * 4;
+      const o = (y * width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,218 @@
+import { OcrWord, PageOcr, Point, RedactionBox, ScannedPage, SensitiveKind } from "../types";
+import { generateId, processImage } from "./imageUtils";
+import { getPerspectiveTransform } from "./perspectiveUtils";
+import { fromDisplayPoint } from "./annotationUtils";
+
+// Redaction paints over the pixels themselves: the original capture is blacked out first and the
+// processed page is rebuilt from it, so no copy of the covered content survives in storage or exports.
+
+const REDACTION_COLOR = '#000';
+// Extra cover around OCR word boxes, as a fraction of the word height (boxes hug the glyphs)
+const WORD_PADDING = 0.2;
+
+export const SENSITIVE_KIND_LABELS: Record<SensitiveKind, string> = {
+  EMAIL: 'Email',
+  PHONE: 'Phone',
+  IBAN: 'IBAN',
+  CARD: 'Card number',
+  ID: 'ID number'
+};
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const passesLuhn = (value: string) => {
+  const digits = digitsOf(value);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) d = d * 2 > 9 ? d * 2 - 9 : d * 2;
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616 check: move the country and check digits to the end, letters become 10-35, remainder mod 97 is 1
+const passesIbanChecksum = (value: string) => {
+  const iban = value.replace(/\s/g, '');
+  const numeric = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, c => String(c.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of numeric) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder === 1;
+};
+
+interface SensitivePattern {
+  kind: SensitiveKind;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+// Checked in order; a word claimed by an earlier pattern keeps that kind
+const SENSITIVE_PATTERNS: SensitivePattern[] = [
+  { kind: 'EMAIL', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { kind: 'IBAN', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, accept: passesIbanChecksum },
+  { kind: 'CARD', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, accept: passesLuhn },
+  { kind: 'ID', pattern: /\b\d{3}-\d{2}-\d{4}\b/g }, // US social security number
+  // Any number introduced by an ID-like label; only the number itself (the last group) is redacted
+  {
+    kind: 'ID',
+    pattern: /\b(?:ID|SSN|TIN|passport|licen[cs]e|tax|national insurance|social security|personal)(?:\s+(?:no|nr|number|id|code))?\.?[\s:#]*((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{4,})/gi
+  },
+  {
+    kind: 'PHONE',
+    pattern: /(?<![\w+])(?:\+|00)?\d(?:[ ()./-]{0,2}\d){6,14}(?!\w)/g,
+    // Dates and plain amounts look like short digit runs with separators
+    accept: match => digitsOf(match).length >= 8 && !/^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/.test(match.trim())
+  }
+];
+
+// Consecutive words grouped into lines, split wherever a word's center leaves the previous word's row
+const splitLines = (words: OcrWord[]): OcrWord[][] => {
+  const lines: OcrWord[][] = [];
+  for (const word of words) {
+    const line = lines[lines.length - 1];
+    const previous = line?.[line.length - 1];
+    if (previous && Math.abs((word.y + word.height / 2) - (previous.y + previous.height / 2)) <= previous.height / 2) line.push(word);
+    else lines.push([word]);
+  }
+  return lines;
+};
+
+// Union of word boxes, split wherever the words don't share a line
+const boxesForWords = (words: OcrWord[], kind: SensitiveKind): RedactionBox[] =>
+  splitLines(words).map(line => {
+    const pad = Math.max(...line.map(w => w.height)) * WORD_PADDING;
+    const x = Math.min(...line.map(w => w.x)) - pad;
+    const y = Math.min(...line.map(w => w.y)) - pad;
+    return {
+      id: generateId(),
+      x, y,
+      width: Math.max(...line.map(w => w.x + w.width)) + pad - x,
+      height: Math.max(...line.map(w => w.y + w.height)) + pad - y,
+      kind
+    };
+  });
+
+/**
+ * Finds emails, phone numbers, IBANs, card numbers and ID numbers in a page's OCR words
+ * and proposes boxes covering them. Matches can span words ("DE89 3704 0044 ...").
+ */
+export const findSensitiveText = (ocr: PageOcr): RedactionBox[] => {
+  // Rebuild the text from the words so every character maps back to a box
+  let text = '';
+  const starts = ocr.words.map(word => {
+    const start = text.length;
+    text += word.text + ' ';
+    return start;
+  });
+
+  const claimed = new Set<number>();
+  const boxes: RedactionBox[] = [];
+  for (const { kind, pattern, accept } of SENSITIVE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[match.length - 1] ?? match[0];
+      if (accept && !accept(value)) continue;
+      const start = match.index! + match[0].length - value.length;
+      const end = start + value.length;
+
+      const indices = ocr.words.flatMap((word, i) =>
+        starts[i] < end && starts[i] + word.text.length > start && !claimed.has(i) ? [i] : []);
+      indices.forEach(i => claimed.add(i));
+      boxes.push(...boxesForWords(indices.map(i => ocr.words[i]), kind));
+    }
+  }
+  return boxes;
+};
+
+const intersects = (word: OcrWord, box: RedactionBox) =>
+  word.x < box.x + box.width && word.x + word.width > box.x && word.y < box.y + box.height && word.y + word.height > box.y;
+
+/**
+ * The OCR text without the covered words, keeping its line breaks (headings and paragraphs are read
+ * from them); lines left empty are dropped. The local engine's text lists the words in order, but if
+ * the text doesn't line up with the words token for token, it's rebuilt from the remaining words,
+ * one line per row, so no covered word can survive in it.
+ */
+const textWithout = (ocr: PageOcr, covered: Set<number>): string => {
+  let next = 0;
+  let aligned = true;
+  const lines: string[] = [];
+  for (const line of ocr.text.split('\n')) {
+    const tokens = line.split(/\s+/).filter(Boolean);
+    const kept = tokens.filter(token => {
+      if (ocr.words[next]?.text !== token) aligned = false;
+      return !covered.has(next++);
+    });
+    if (tokens.length === 0 || kept.length > 0) lines.push(kept.join(' '));
+  }
+  if (aligned && next === ocr.words.length) return lines.join('\n').trim();
+
+  const remaining = ocr.words.filter((_, i) => !covered.has(i));
+  return splitLines(remaining).map(line => line.map(w => w.text).join(' ')).join('\n');
+};
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not load image"));
+  img.src = dataUrl;
+});
+
+const paintOver = async (dataUrl: string, paint: (ctx: CanvasRenderingContext2D, width: number, height: number) => void): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(img, 0, 0);
+  ctx.fillStyle = REDACTION_COLOR;
+  ctx.strokeStyle = REDACTION_COLOR;
+  ctx.lineJoin = 'miter';
+  paint(ctx, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
+
+/**
+ * Burns the boxes into the page: blacked out on the original capture (mapped back through
+ * rotation and crop), the processed page rebuilt from it, and covered OCR words dropped.
+ */
+export const burnRedactions = async (page: ScannedPage, boxes: RedactionBox[]): Promise<ScannedPage> => {
+  if (boxes.length === 0) return page;
+
+  const originalDataUrl = await paintOver(page.originalDataUrl, (ctx, width, height) => {
+    const outline = page.corners ?? [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+    const h = getPerspectiveTransform([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }], outline);
+    const toOriginal = (display: Point): Point => {
+      const p = fromDisplayPoint(display, page.rotation);
+      const w = h[6] * p.x + h[7] * p.y + h[8];
+      return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w };
+    };
+    // The outline stroke covers the pixels the warp blends in along the box edges
+    ctx.lineWidth = Math.max(width, height) * 0.004;
+    for (const box of boxes) {
+      const quad = [
+        { x: box.x, y: box.y }, { x: box.x + box.width, y: box.y },
+        { x: box.x + box.width, y: box.y + box.height }, { x: box.x, y: box.y + box.height }
+      ].map(toOriginal);
+      ctx.beginPath();
+      quad.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    }
+  });
+
+  const rebuilt = await processImage(originalDataUrl, page.filter, page.rotation, page.highlightsLayer, page.corners, page.annotations);
+  // Filters like Magic Enhance lift large dark areas, so the boxes are painted solid again on top
+  const processedDataUrl = await paintOver(rebuilt, (ctx, width, height) => {
+    boxes.forEach(box => ctx.fillRect(box.x * width, box.y * height, box.width * width, box.height * height));
+  });
+
+  let ocr = page.ocr;
+  if (ocr) {
+    const covered = new Set(ocr.words.flatMap((word, i) => boxes.some(box => intersects(word, box)) ? [i] : []));
+    if (covered.size > 0) ocr = { text: textWithout(ocr, covered), words: ocr.words.filter((_, i) => !covered.has(i)) };
+  }
+
+  return { ...page, originalDataUrl, processedDataUrl, ocr };
+};
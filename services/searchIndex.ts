@@ -0,0 +1,100 @@
+import { StoredDocument } from "../types";
+
+// In-memory inverted index over the library's text (token -> document ids).
+// Documents are re-indexed one at a time as they're saved, so typing in the search box never
+// rescans the whole library.
+
+export interface SearchIndex {
+  upsert: (doc: StoredDocument) => void;
+  remove: (id: string) => void;
+  // Ids of documents containing every query word (as a word prefix); null for an empty query
+  search: (query: string) => Set<string> | null;
+}
+
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents so "cafe" finds "café"
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+const documentText = (doc: StoredDocument): string => [
+  doc.title,
+  doc.category,
+  doc.aiSummary,
+  doc.translation?.text,
+  doc.expense?.vendor,
+  ...(doc.tags || []),
+  ...doc.pages.map(p => p.ocr?.text)
+].filter(Boolean).join(' ');
+
+export const createSearchIndex = (): SearchIndex => {
+  const postings = new Map<string, Set<string>>();
+  const docTokens = new Map<string, Set<string>>();
+  // Sorted vocabulary for prefix lookups, rebuilt lazily after changes
+  let vocabulary: string[] = [];
+  let isVocabularyDirty = false;
+
+  const remove = (id: string) => {
+    const tokens = docTokens.get(id);
+    if (!tokens) return;
+    tokens.forEach(token => {
+      const ids = postings.get(token);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        postings.delete(token);
+        isVocabularyDirty = true;
+      }
+    });
+    docTokens.delete(id);
+  };
+
+  const upsert = (doc: StoredDocument) => {
+    remove(doc.id);
+    const tokens = new Set(tokenize(documentText(doc)));
+    tokens.forEach(token => {
+      let ids = postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        postings.set(token, ids);
+        isVocabularyDirty = true;
+      }
+      ids.add(doc.id);
+    });
+    docTokens.set(doc.id, tokens);
+  };
+
+  // All document ids having a token that starts with `prefix` (binary search to the first candidate)
+  const matchPrefix = (prefix: string): Set<string> => {
+    if (isVocabularyDirty) {
+      vocabulary = Array.from(postings.keys()).sort();
+      isVocabularyDirty = false;
+    }
+    let lo = 0, hi = vocabulary.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (vocabulary[mid] < prefix) lo = mid + 1; else hi = mid;
+    }
+    const result = new Set<string>();
+    for (let i = lo; i < vocabulary.length && vocabulary[i].startsWith(prefix); i++) {
+      postings.get(vocabulary[i])?.forEach(id => result.add(id));
+    }
+    return result;
+  };
+
+  const search = (query: string): Set<string> | null => {
+    const terms = tokenize(query);
+    if (terms.length === 0) return null;
+
+    let result: Set<string> | null = null;
+    for (const term of terms) {
+      const matches = matchPrefix(term);
+      result = result ? new Set(Array.from(result).filter(id => matches.has(id))) : matches;
+      if (result.size === 0) break;
+    }
+    return result;
+  };
+
+  return { upsert, remove, search };
+};
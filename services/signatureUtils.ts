@@ -0,0 +1,70 @@
+import { Signature } from "../types";
+import { generateId } from "./imageUtils";
+
+// Longest side kept for library signatures; plenty for a signature a few centimetres wide on a page
+const MAX_SIGNATURE_SIZE = 1000;
+// Pixels at least this light (0-255) count as paper; anything darker than INK_LUMINANCE is fully opaque
+const PAPER_LUMINANCE = 200;
+const INK_LUMINANCE = 100;
+const TRIM_PADDING = 4;
+
+/**
+ * Turns a drawing or a photo of a signature into a library entry: paper becomes transparent,
+ * ink keeps its colour, and the image is trimmed to the ink. Returns null if there's no ink.
+ */
+export const createSignature = (source: CanvasImageSource, width: number, height: number): Signature | null => {
+  const scale = Math.min(1, MAX_SIGNATURE_SIZE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const image = ctx.getImageData(0, 0, w, h);
+  const data = image.data;
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = (y * w + x) * 4;
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      // Drawn strokes already carry alpha; photographed ink gets it from how dark it is
+      const inkAlpha = Math.min(1, Math.max(0, (PAPER_LUMINANCE - luminance) / (PAPER_LUMINANCE - INK_LUMINANCE)));
+      data[i + 3] = Math.round(Math.min(data[i + 3], inkAlpha * 255));
+      if (data[i + 3] > 16) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  if (maxX < 0) return null;
+
+  const left = Math.max(0, minX - TRIM_PADDING);
+  const top = Math.max(0, minY - TRIM_PADDING);
+  const trimmed = document.createElement('canvas');
+  trimmed.width = Math.min(w, maxX + TRIM_PADDING + 1) - left;
+  trimmed.height = Math.min(h, maxY + TRIM_PADDING + 1) - top;
+  trimmed.getContext('2d')?.putImageData(image, -left, -top);
+
+  return {
+    id: generateId(),
+    dataUrl: trimmed.toDataURL('image/png'),
+    width: trimmed.width,
+    height: trimmed.height,
+    createdAt: Date.now()
+  };
+};
+
+// A photo or scan of a signature on paper
+export const importSignature = async (file: File): Promise<Signature | null> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return createSignature(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,537 @@
+import { DocumentData, EditorDraft, Folder, ScannedPage, Signature, StoredDocument, StoredPage } from "../types";
+import { blobToDataUrl, createThumbnail, dataUrlToBlob } from "./imageUtils";
+import { createDataKey, decryptBytes, decryptJson, encryptBytes, encryptJson, rewrapDataKey, unwrapDataKey, VaultKeyInfo } from "./vaultService";
+
+// Document library backed by IndexedDB.
+// - "documents" holds StoredDocument records (metadata + page settings, no pixels)
+// - "images" holds one Blob per page image plus a per-document thumbnail
+// - "folders" holds the user's (nestable) folders
+// - "signatures" holds the signature library
+// - "meta" holds the vault key, when the library is encrypted, and the editor draft saved on locking
+// Each save only touches the document being saved, and only rewrites images that changed.
+// With the vault on, records are stored as { id, sealed } and images as { type, sealed }; only ids,
+// image keys and MIME types stay readable. Plain and sealed values are told apart on read, so an
+// interrupted encrypt/decrypt pass leaves a library that still loads and can be finished later.
+
+const DB_NAME = 'open_scan';
+const DB_VERSION = 4;
+const DOCS_STORE = 'documents';
+const IMAGES_STORE = 'images';
+const FOLDERS_STORE = 'folders';
+const SIGNATURES_STORE = 'signatures';
+const META_STORE = 'meta';
+const VAULT_KEY = 'vault';
+const DRAFT_KEY = 'draft';
+const LEGACY_STORAGE_KEY = 'open_scan_docs';
+
+export type ImageKind = 'original' | 'processed' | 'highlights';
+const IMAGE_KINDS: ImageKind[] = ['original', 'processed', 'highlights'];
+
+const imageKey = (pageId: string, kind: ImageKind) => `${pageId}/${kind}`;
+const thumbnailKey = (docId: string) => `${docId}/thumbnail`;
+
+// Fingerprint of the last data URL written to / read from each image key, so unchanged images are
+// never rewritten without keeping full-resolution copies of every page ever opened in memory
+const knownImages = new Map<string, string>();
+
+// Length plus 32-bit FNV-1a over the whole string: an edit that keeps the length still changes the hash
+const fingerprint = (dataUrl: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dataUrl.length; i++) {
+    hash ^= dataUrl.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${dataUrl.length}:${(hash >>> 0).toString(36)}`;
+};
+// Object URLs handed out for dashboard thumbnails
+const thumbnailUrls = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCS_STORE)) db.createObjectStore(DOCS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) db.createObjectStore(IMAGES_STORE);
+        if (!db.objectStoreNames.contains(FOLDERS_STORE)) db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SIGNATURES_STORE)) db.createObjectStore(SIGNATURES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+};
+
+// --- Vault ---
+
+interface StoredVault extends VaultKeyInfo {
+  complete: boolean; // False until every existing record and image has been encrypted
+}
+
+interface SealedRecord {
+  id: string;
+  sealed: ArrayBuffer;
+}
+
+interface SealedImage {
+  type: string;
+  sealed: ArrayBuffer;
+}
+
+type StoredImage = Blob | SealedImage;
+
+// undefined until read from the database; the key is held in memory only while unlocked
+let vault: StoredVault | null | undefined;
+let vaultKey: CryptoKey | null = null;
+
+const readVault = async (): Promise<StoredVault | null> => {
+  if (vault === undefined) {
+    const db = await openDB();
+    vault = await requestToPromise<StoredVault | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get(VAULT_KEY)) ?? null;
+  }
+  return vault;
+};
+
+const writeVault = async (next: StoredVault | null) => {
+  const db = await openDB();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  if (next) tx.objectStore(META_STORE).put(next, VAULT_KEY);
+  else tx.objectStore(META_STORE).delete(VAULT_KEY);
+  await transactionDone(tx);
+  vault = next;
+};
+
+// Key for new writes: null when the vault is off; throws rather than write plaintext while locked
+const writeKey = async (): Promise<CryptoKey | null> => {
+  if (!(await readVault())) return null;
+  if (!vaultKey) throw new Error("The library is locked");
+  return vaultKey;
+};
+
+const readKey = (): CryptoKey => {
+  if (!vaultKey) throw new Error("The library is locked");
+  return vaultKey;
+};
+
+const isSealed = (value: object): value is SealedRecord | SealedImage => 'sealed' in value;
+
+const sealRecord = async <T extends { id: string }>(record: T, key: CryptoKey | null): Promise<T | SealedRecord> =>
+  key ? { id: record.id, sealed: await encryptJson(key, record) } : record;
+
+const openRecord = <T>(value: T | SealedRecord): Promise<T> =>
+  isSealed(value as object) ? decryptJson<T>(readKey(), (value as SealedRecord).sealed) : Promise.resolve(value as T);
+
+const sealImage = async (blob: Blob, key: CryptoKey | null): Promise<StoredImage> =>
+  key ? { type: blob.type, sealed: await encryptBytes(key, await blob.arrayBuffer()) } : blob;
+
+const openImage = async (value: StoredImage | undefined): Promise<Blob | undefined> => {
+  if (!value) return undefined;
+  if (value instanceof Blob) return value;
+  return new Blob([await decryptBytes(readKey(), value.sealed)], { type: value.type });
+};
+
+const pageImages = (page: ScannedPage): Record<ImageKind, string | undefined> => ({
+  original: page.originalDataUrl,
+  processed: page.processedDataUrl,
+  highlights: page.highlightsLayer
+});
+
+export const toStoredDocument = (doc: DocumentData): StoredDocument => ({
+  ...doc,
+  pages: doc.pages.map(({ originalDataUrl, processedDataUrl, highlightsLayer, ...rest }): StoredPage => rest)
+});
+
+export const listDocuments = async (): Promise<StoredDocument[]> => {
+  const db = await openDB();
+  const stored = await requestToPromise<(StoredDocument | SealedRecord)[]>(db.transaction(DOCS_STORE).objectStore(DOCS_STORE).getAll());
+  const docs = await Promise.all(stored.map(record => openRecord<StoredDocument>(record)));
+  return docs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const getStoredDocument = async (id: string): Promise<StoredDocument | undefined> => {
+  const db = await openDB();
+  const stored = await requestToPromise<StoredDocument | SealedRecord | undefined>(db.transaction(DOCS_STORE).objectStore(DOCS_STORE).get(id));
+  return stored && openRecord<StoredDocument>(stored);
+};
+
+// Decrypted images of every page, in IMAGE_KINDS order
+const readPageImages = async (record: StoredDocument): Promise<(Blob | undefined)[][]> => {
+  const db = await openDB();
+  const images = db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE);
+  const blobRequests = record.pages.map(page =>
+    IMAGE_KINDS.map(kind => requestToPromise<StoredImage | undefined>(images.get(imageKey(page.id, kind))))
+  );
+  return Promise.all(blobRequests.map(requests => Promise.all(requests.map(async request => openImage(await request)))));
+};
+
+// Loads a document with all page images as data URLs (what the editor and exporters work with)
+export const loadDocument = async (id: string): Promise<DocumentData | null> => {
+  // Decrypting the record isn't an IndexedDB request, so the images are read in a second transaction
+  const record = await getStoredDocument(id);
+  if (!record) return null;
+  const blobs = await readPageImages(record);
+
+  const pages = await Promise.all(record.pages.map(async (page, i): Promise<ScannedPage> => {
+    const [original, processed, highlights] = await Promise.all(blobs[i].map(async (blob, k) => {
+      if (!blob) return undefined;
+      const dataUrl = await blobToDataUrl(blob);
+      knownImages.set(imageKey(page.id, IMAGE_KINDS[k]), fingerprint(dataUrl));
+      return dataUrl;
+    }));
+    return {
+      ...page,
+      originalDataUrl: original || processed || '',
+      processedDataUrl: processed || original || '',
+      highlightsLayer: highlights
+    };
+  }));
+
+  return { ...record, pages };
+};
+
+/**
+ * A document as stored, with each page's images as they are on disk. For bulk reads like backups:
+ * unlike loadDocument it doesn't touch the save cache, since the document isn't being edited.
+ */
+export const readDocumentImages = async (id: string): Promise<{ record: StoredDocument; images: Partial<Record<ImageKind, Blob>>[] } | null> => {
+  const record = await getStoredDocument(id);
+  if (!record) return null;
+  const blobs = await readPageImages(record);
+  const images = blobs.map(page => Object.fromEntries(
+    IMAGE_KINDS.flatMap((kind, k) => page[k] ? [[kind, page[k]]] : [])
+  ) as Partial<Record<ImageKind, Blob>>);
+  return { record, images };
+};
+
+export const saveDocument = async (doc: DocumentData): Promise<StoredDocument> => {
+  const key = await writeKey();
+  const previous = await getStoredDocument(doc.id);
+  const record = toStoredDocument(doc);
+
+  // Blob conversion and encryption are async, so they have to finish before the write transaction starts
+  const writes: { key: string; blob: StoredImage; fingerprint: string }[] = [];
+  const removals: string[] = [];
+  for (const page of doc.pages) {
+    const images = pageImages(page);
+    for (const kind of IMAGE_KINDS) {
+      const storeKey = imageKey(page.id, kind);
+      const dataUrl = images[kind];
+      if (!dataUrl) {
+        if (knownImages.has(storeKey) || previous) removals.push(storeKey);
+        continue;
+      }
+      const print = fingerprint(dataUrl);
+      if (knownImages.get(storeKey) === print) continue;
+      writes.push({ key: storeKey, blob: await sealImage(await dataUrlToBlob(dataUrl), key), fingerprint: print });
+    }
+  }
+
+  const currentPageIds = new Set(doc.pages.map(p => p.id));
+  previous?.pages.filter(p => !currentPageIds.has(p.id)).forEach(p => {
+    IMAGE_KINDS.forEach(kind => removals.push(imageKey(p.id, kind)));
+  });
+
+  const firstProcessed = doc.pages[0]?.processedDataUrl;
+  const thumbnailChanged = !!firstProcessed && (
+    !previous || previous.pages[0]?.id !== doc.pages[0].id || writes.some(w => w.key === imageKey(doc.pages[0].id, 'processed'))
+  );
+  const thumbnail = thumbnailChanged ? await sealImage(await createThumbnail(firstProcessed), key) : null;
+  const storedRecord = await sealRecord(record, key);
+
+  const db = await openDB();
+  const tx = db.transaction([DOCS_STORE, IMAGES_STORE], 'readwrite');
+  const images = tx.objectStore(IMAGES_STORE);
+  tx.objectStore(DOCS_STORE).put(storedRecord);
+  writes.forEach(w => images.put(w.blob, w.key));
+  removals.forEach(key => images.delete(key));
+  if (thumbnail) images.put(thumbnail, thumbnailKey(doc.id));
+  await transactionDone(tx);
+
+  writes.forEach(w => knownImages.set(w.key, w.fingerprint));
+  removals.forEach(key => knownImages.delete(key));
+  if (thumbnail) releaseThumbnail(doc.id);
+  return record;
+};
+
+// Metadata-only update (folder moves, tags...) that leaves page images untouched
+export const updateDocuments = async (ids: string[], changes: Partial<Omit<StoredDocument, 'id' | 'pages'>>): Promise<StoredDocument[]> => {
+  const key = await writeKey();
+  const records = await Promise.all(ids.map(getStoredDocument));
+  const updated = records.filter((r): r is StoredDocument => !!r).map(r => ({ ...r, ...changes }));
+  const stored = await Promise.all(updated.map(r => sealRecord(r, key)));
+
+  const db = await openDB();
+  const tx = db.transaction(DOCS_STORE, 'readwrite');
+  stored.forEach(r => tx.objectStore(DOCS_STORE).put(r));
+  await transactionDone(tx);
+  return updated;
+};
+
+export const deleteDocuments = async (ids: string[]): Promise<void> => {
+  const records = await Promise.all(ids.map(getStoredDocument));
+  const db = await openDB();
+  const tx = db.transaction([DOCS_STORE, IMAGES_STORE], 'readwrite');
+  const images = tx.objectStore(IMAGES_STORE);
+
+  ids.forEach((id, i) => {
+    tx.objectStore(DOCS_STORE).delete(id);
+    images.delete(thumbnailKey(id));
+    records[i]?.pages.forEach(page => IMAGE_KINDS.forEach(kind => {
+      images.delete(imageKey(page.id, kind));
+      knownImages.delete(imageKey(page.id, kind));
+    }));
+  });
+  await transactionDone(tx);
+  ids.forEach(releaseThumbnail);
+};
+
+export const listFolders = async (): Promise<Folder[]> => {
+  const db = await openDB();
+  const stored = await requestToPromise<(Folder | SealedRecord)[]>(db.transaction(FOLDERS_STORE).objectStore(FOLDERS_STORE).getAll());
+  const folders = await Promise.all(stored.map(record => openRecord<Folder>(record)));
+  return folders.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveFolder = async (folder: Folder): Promise<void> => {
+  const stored = await sealRecord(folder, await writeKey());
+  const db = await openDB();
+  const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+  tx.objectStore(FOLDERS_STORE).put(stored);
+  await transactionDone(tx);
+};
+
+// Deletes a folder without deleting anything in it: its documents and subfolders move up one level
+export const deleteFolder = async (id: string): Promise<void> => {
+  const key = await writeKey();
+  const [allFolders, allDocs] = await Promise.all([listFolders(), listDocuments()]);
+  const folder = allFolders.find(f => f.id === id);
+  if (!folder) return;
+
+  // Records are sealed up front: the write transaction would close while waiting on encryption
+  const [movedFolders, movedDocs] = await Promise.all([
+    Promise.all(allFolders.filter(f => f.parentId === id).map(f => sealRecord({ ...f, parentId: folder.parentId }, key))),
+    Promise.all(allDocs.filter(d => d.folderId === id).map(d => sealRecord({ ...d, folderId: folder.parentId }, key)))
+  ]);
+
+  const db = await openDB();
+  const tx = db.transaction([DOCS_STORE, FOLDERS_STORE], 'readwrite');
+  const folders = tx.objectStore(FOLDERS_STORE);
+  movedFolders.forEach(f => folders.put(f));
+  movedDocs.forEach(d => tx.objectStore(DOCS_STORE).put(d));
+  folders.delete(id);
+  await transactionDone(tx);
+};
+
+// Newest first
+export const listSignatures = async (): Promise<Signature[]> => {
+  const db = await openDB();
+  const stored = await requestToPromise<(Signature | SealedRecord)[]>(db.transaction(SIGNATURES_STORE).objectStore(SIGNATURES_STORE).getAll());
+  const signatures = await Promise.all(stored.map(record => openRecord<Signature>(record)));
+  return signatures.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveSignature = async (signature: Signature): Promise<void> => {
+  const stored = await sealRecord(signature, await writeKey());
+  const db = await openDB();
+  const tx = db.transaction(SIGNATURES_STORE, 'readwrite');
+  tx.objectStore(SIGNATURES_STORE).put(stored);
+  await transactionDone(tx);
+};
+
+// Pages already signed keep their own copy of the image
+export const deleteSignature = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SIGNATURES_STORE, 'readwrite');
+  tx.objectStore(SIGNATURES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Object URL for a document's dashboard thumbnail, or null if none is stored
+export const getThumbnailUrl = async (docId: string): Promise<string | null> => {
+  const cached = thumbnailUrls.get(docId);
+  if (cached) return cached;
+
+  const db = await openDB();
+  const blob = await openImage(await requestToPromise<StoredImage | undefined>(db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(thumbnailKey(docId))));
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  thumbnailUrls.set(docId, url);
+  return url;
+};
+
+const releaseThumbnail = (docId: string) => {
+  const url = thumbnailUrls.get(docId);
+  if (url) URL.revokeObjectURL(url);
+  thumbnailUrls.delete(docId);
+};
+
+export const isVaultEnabled = async (): Promise<boolean> => !!(await readVault());
+
+export const isVaultUnlocked = () => vaultKey !== null;
+
+// Encrypts (with a key) or decrypts (with null) every record and image, one value per transaction
+// so memory stays flat on large libraries. Values already in the target form are skipped.
+const convertLibrary = async (key: CryptoKey | null, onProgress?: (done: number, total: number) => void) => {
+  const db = await openDB();
+  const stores = [DOCS_STORE, FOLDERS_STORE, SIGNATURES_STORE, IMAGES_STORE];
+  const storeKeys = await Promise.all(stores.map(name => requestToPromise(db.transaction(name).objectStore(name).getAllKeys())));
+  const total = storeKeys.reduce((sum, keys) => sum + keys.length, 0);
+  let done = 0;
+
+  for (let s = 0; s < stores.length; s++) {
+    const name = stores[s];
+    for (const itemKey of storeKeys[s]) {
+      const value = await requestToPromise<object | undefined>(db.transaction(name).objectStore(name).get(itemKey));
+      let next: object | undefined;
+      if (value && key && !isSealed(value)) {
+        next = value instanceof Blob ? await sealImage(value, key) : await sealRecord(value as { id: string }, key);
+      } else if (value && !key && isSealed(value)) {
+        next = name === IMAGES_STORE ? await openImage(value as SealedImage) : await openRecord(value);
+      }
+      if (next) {
+        const tx = db.transaction(name, 'readwrite');
+        if (name === IMAGES_STORE) tx.objectStore(name).put(next, itemKey);
+        else tx.objectStore(name).put(next);
+        await transactionDone(tx);
+      }
+      onProgress?.(++done, total);
+    }
+  }
+};
+
+/**
+ * Turns on encryption at rest: creates the data key, wraps it with the passphrase and encrypts
+ * everything already stored. The library stays unlocked afterwards.
+ */
+export const enableVault = async (passphrase: string, onProgress?: (done: number, total: number) => void): Promise<void> => {
+  if (await readVault()) throw new Error("The library is already encrypted");
+  const { info, key } = await createDataKey(passphrase);
+  await writeVault({ ...info, complete: false });
+  vaultKey = key;
+  await convertLibrary(key, onProgress);
+  await writeVault({ ...info, complete: true });
+};
+
+// False if the passphrase is wrong
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const stored = await readVault();
+  if (!stored) return true;
+  const key = await unwrapDataKey(stored, passphrase);
+  if (!key) return false;
+  vaultKey = key;
+  // Finishes an encryption pass that was interrupted (tab closed, app killed...)
+  if (!stored.complete) {
+    await convertLibrary(key);
+    await writeVault({ ...stored, complete: true });
+  }
+  return true;
+};
+
+/**
+ * Keeps unsaved editor work across a lock, sealed like everything else. Only one draft is kept,
+ * and it's handed back once by takeDraft.
+ */
+export const stashDraft = async (draft: EditorDraft): Promise<void> => {
+  const db = await openDB();
+  const sealed = await encryptJson(readKey(), draft);
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ sealed }, DRAFT_KEY);
+  await transactionDone(tx);
+};
+
+export const takeDraft = async (): Promise<EditorDraft | null> => {
+  const db = await openDB();
+  const stored = await requestToPromise<{ sealed: ArrayBuffer } | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get(DRAFT_KEY));
+  if (!stored) return null;
+  const draft = await decryptJson<EditorDraft>(readKey(), stored.sealed);
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).delete(DRAFT_KEY);
+  await transactionDone(tx);
+  return draft;
+};
+
+// Forgets the key, the image fingerprints and every decrypted thumbnail handed out
+export const lockVault = () => {
+  vaultKey = null;
+  knownImages.clear();
+  Array.from(thumbnailUrls.keys()).forEach(releaseThumbnail);
+};
+
+// Re-wraps the data key only; nothing stored is re-encrypted. False if the current passphrase is wrong
+export const changeVaultPassphrase = async (current: string, next: string): Promise<boolean> => {
+  const stored = await readVault();
+  if (!stored) throw new Error("The library is not encrypted");
+  const info = await rewrapDataKey(stored, current, next);
+  if (!info) return false;
+  await writeVault({ ...info, complete: stored.complete });
+  return true;
+};
+
+// Decrypts the whole library and removes the key. False if the passphrase is wrong
+export const disableVault = async (passphrase: string, onProgress?: (done: number, total: number) => void): Promise<boolean> => {
+  const stored = await readVault();
+  if (!stored) return true;
+  const key = await unwrapDataKey(stored, passphrase);
+  if (!key) return false;
+  vaultKey = key;
+  // If this pass is interrupted, the next unlock encrypts the library again rather than leave it mixed
+  await writeVault({ ...stored, complete: false });
+  await convertLibrary(null, onProgress);
+  await writeVault(null);
+  vaultKey = null;
+  return true;
+};
+
+/**
+ * One-time move of the old single-key localStorage library into IndexedDB.
+ * The legacy key is only removed once every document has been written.
+ */
+export const migrateFromLocalStorage = async (): Promise<number> => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacy) return 0;
+
+  let docs: DocumentData[];
+  try {
+    docs = JSON.parse(legacy);
+  } catch (error) {
+    console.error("Legacy library is corrupt, skipping migration:", error);
+    return 0;
+  }
+
+  for (const doc of docs) await saveDocument(doc);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return docs.length;
+};
+
+// Ask the browser not to evict the library under storage pressure (best effort)
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch (error) {
+    console.warn("Persistent storage request failed:", error);
+  }
+};
@@ -0,0 +1,84 @@
+// Passphrase encryption for the library at rest (WebCrypto only).
+// A random AES-GCM data key encrypts every record and image; the passphrase, stretched with PBKDF2,
+// only wraps that key. Changing the passphrase therefore re-wraps one key instead of re-encrypting
+// the library, and a wrong passphrase is detected by the wrapped key failing authentication.
+
+const PBKDF2_ITERATIONS = 600_000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export interface VaultKeyInfo {
+  salt: Uint8Array;
+  iterations: number;
+  iv: Uint8Array;
+  wrappedKey: ArrayBuffer;
+}
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const wrapDataKey = async (key: CryptoKey, passphrase: string): Promise<VaultKeyInfo> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt, iterations: PBKDF2_ITERATIONS, iv, wrappedKey };
+};
+
+/**
+ * Unwraps the data key, or returns null if the passphrase is wrong. The key is only extractable
+ * when it's about to be re-wrapped; the one kept for the session never is.
+ */
+export const unwrapDataKey = async (info: VaultKeyInfo, passphrase: string, extractable = false): Promise<CryptoKey | null> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, info.salt, info.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw', info.wrappedKey, wrappingKey, { name: 'AES-GCM', iv: info.iv },
+      { name: 'AES-GCM', length: 256 }, extractable, ['encrypt', 'decrypt']
+    );
+  } catch {
+    return null;
+  }
+};
+
+// New data key wrapped with the passphrase; the returned key is the session copy
+export const createDataKey = async (passphrase: string): Promise<{ info: VaultKeyInfo; key: CryptoKey }> => {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const info = await wrapDataKey(key, passphrase);
+  return { info, key: (await unwrapDataKey(info, passphrase))! };
+};
+
+// Same data key under a new passphrase (fresh salt); null if the current passphrase is wrong
+export const rewrapDataKey = async (info: VaultKeyInfo, current: string, next: string): Promise<VaultKeyInfo | null> => {
+  const key = await unwrapDataKey(info, current, true);
+  return key && wrapDataKey(key, next);
+};
+
+// IV followed by the ciphertext (which carries the GCM tag)
+export const encryptBytes = async (key: CryptoKey, data: BufferSource): Promise<ArrayBuffer> => {
+  const iv = randomBytes(IV_LENGTH);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return sealed.buffer;
+};
+
+export const decryptBytes = (key: CryptoKey, sealed: ArrayBuffer): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.slice(0, IV_LENGTH) }, key, sealed.slice(IV_LENGTH));
+
+export const encryptJson = (key: CryptoKey, value: unknown) =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, sealed: ArrayBuffer): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, sealed)));
@@ -0,0 +1,79 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { jsPDF } from 'jspdf';
+import { getDocument, PermissionFlag } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { DocumentData } from '../types';
+import { exportToCSV, isSupportedPdfPassword, protectPDF } from '../services/exportUtils';
+
+const receipt = (vendor: string, description: string): DocumentData => ({
+  id: 'doc', title: 'Receipt', createdAt: 0, category: 'Receipt', pages: [],
+  expense: {
+    vendor, date: '2024-05-01', currency: 'EUR', invoiceNumber: '', total: -12.5,
+    lineItems: [{ description, quantity: 1, unitPrice: -12.5, amount: -12.5 }]
+  }
+});
+
+const rows = async (doc: DocumentData) => (await exportToCSV(doc).text()).replace(/^﻿/, '').split('\r\n');
+
+describe('exportToCSV', () => {
+  it('keeps formula-like text from running in spreadsheets', async () => {
+    const [, row] = await rows(receipt('=HYPERLINK("http://x","y")', '@SUM(A1)'));
+    expect(row.startsWith(`"'=HYPERLINK(""http://x"",""y"")"`)).toBe(true);
+    expect(row).toContain(`,'@SUM(A1),`);
+  });
+
+  it('leaves numbers, including negative ones, as numbers', async () => {
+    const [, row] = await rows(receipt('Shop', '-refund'));
+    expect(row).toBe(`Shop,2024-05-01,,EUR,'-refund,1,-12.5,-12.5,,,-12.5,Receipt`);
+  });
+});
+
+describe('isSupportedPdfPassword', () => {
+  it('accepts passwords in any script', () => {
+    expect(isSupportedPdfPassword('Passw0rd!')).toBe(true);
+    expect(isSupportedPdfPassword('Grüße 123')).toBe(true);
+    expect(isSupportedPdfPassword('пароль12')).toBe(true);
+  });
+
+  it('rejects control characters', () => {
+    expect(isSupportedPdfPassword('pass\u0007word')).toBe(false);
+  });
+});
+
+describe('protectPDF', () => {
+  const sample = () => {
+    const pdf = new jsPDF();
+    pdf.setDocumentProperties({ title: 'Payslip March' });
+    pdf.text('Net salary 4321.00', 20, 20);
+    pdf.outline.add(null, 'Page 1: Payslip March', { pageNumber: 1 });
+    return new Uint8Array(pdf.output('arraybuffer'));
+  };
+  const standardFontDataUrl = `${path.resolve(__dirname, '../node_modules/pdfjs-dist/standard_fonts')}/`;
+  const open = (data: Uint8Array, password?: string) => getDocument({ data, password, standardFontDataUrl }).promise;
+  const protection = { password: 'пароль12', allowPrinting: true, allowCopying: false };
+
+  it('encrypts with AES-256 so nothing readable is left in the file', async () => {
+    const encrypted = await protectPDF(sample(), protection);
+    const raw = new TextDecoder('latin1').decode(encrypted);
+    expect(raw).toMatch(/\/V 5\b/);
+    expect(raw).toMatch(/\/R 6\b/);
+    expect(raw).not.toContain('4321');
+    expect(raw).not.toContain('Payslip');
+  });
+
+  it('opens with the password only, with the chosen permissions', async () => {
+    const encrypted = await protectPDF(sample(), protection);
+    await expect(open(encrypted.slice())).rejects.toThrow(/password/i);
+    await expect(open(encrypted.slice(), 'wrong')).rejects.toThrow(/password/i);
+
+    const pdf = await open(encrypted.slice(), protection.password);
+    const text = await (await pdf.getPage(1)).getTextContent();
+    expect(text.items.map(item => 'str' in item ? item.str : '').join('')).toContain('Net salary 4321.00');
+    expect((await pdf.getOutline())[0].title).toBe('Page 1: Payslip March');
+    expect((await pdf.getMetadata()).info).toMatchObject({ Title: 'Payslip March' });
+    const permissions = await pdf.getPermissions();
+    expect(permissions).toContain(PermissionFlag.PRINT);
+    expect(permissions).not.toContain(PermissionFlag.COPY);
+    await pdf.destroy();
+  });
+});
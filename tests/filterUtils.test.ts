@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { applyAdaptiveBW, applyMagicEnhance, contrastStretch, flattenBackground, PixelBuffer, sauvolaThreshold, toLuminance } from '../services/filterUtils';
+
+// Fixtures share one layout: ocr-text.png is the clean page (black text on white), and it is the
+// ground truth for the others. shadowed-page.png adds lamp falloff and a hand shadow (paper from
+// ~235 down to ~50), low-contrast.png squeezes it into 110-160.
+
+const loadFixture = (name: string): PixelBuffer => {
+  const png = PNG.sync.read(fs.readFileSync(path.resolve(__dirname, 'fixtures', name)));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+};
+
+// Ink wherever the clean page is darker than mid-gray
+const inkMask = (clean: PixelBuffer): boolean[] => Array.from(toLuminance(clean), v => v < 128);
+
+const stats = (values: ArrayLike<number>, include: (i: number) => boolean = () => true) => {
+  let sum = 0, sumSq = 0, n = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (!include(i)) continue;
+    sum += values[i];
+    sumSq += values[i] * values[i];
+    n++;
+  }
+  const mean = sum / n;
+  return { mean, std: Math.sqrt(Math.max(0, sumSq / n - mean * mean)) };
+};
+
+const percentile = (values: ArrayLike<number>, p: number) => {
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Fraction of pixels where a binary image (0 = ink) agrees with the ground truth
+const agreement = (binary: ArrayLike<number>, ink: boolean[]) => {
+  let same = 0;
+  for (let i = 0; i < ink.length; i++) if ((binary[i] === 0) === ink[i]) same++;
+  return same / ink.length;
+};
+
+const ink = inkMask(loadFixture('ocr-text.png'));
+
+describe('flattenBackground', () => {
+  it('turns shadowed paper into even white', () => {
+    const page = loadFixture('shadowed-page.png');
+    const gray = toLuminance(page);
+    const flat = flattenBackground(gray, page.width, page.height);
+
+    const before = stats(gray, i => !ink[i]);
+    expect(before.mean).toBeLessThan(170);
+    expect(before.std).toBeGreaterThan(40);
+
+    const paper = stats(flat, i => !ink[i]);
+    expect(paper.mean).toBeGreaterThan(240);
+    expect(paper.std).toBeLessThan(20);
+    expect(stats(flat, i => ink[i]).mean).toBeLessThan(80);
+  });
+});
+
+describe('contrastStretch', () => {
+  it('spreads a narrow histogram over the full range', () => {
+    const page = loadFixture('low-contrast.png');
+    const stretched = contrastStretch(toLuminance(page));
+
+    expect(percentile(stretched, 0.005)).toBeLessThan(15);
+    expect(percentile(stretched, 0.995)).toBeGreaterThanOrEqual(250);
+    expect(stats(stretched, i => ink[i]).mean).toBeLessThan(40);
+    expect(stats(stretched, i => !ink[i]).mean).toBeGreaterThan(240);
+  });
+});
+
+describe('sauvolaThreshold', () => {
+  it('separates text from paper under uneven lighting', () => {
+    const page = loadFixture('shadowed-page.png');
+    const gray = toLuminance(page);
+    const binary = sauvolaThreshold(flattenBackground(gray, page.width, page.height), page.width, page.height);
+
+    expect(binary.every(v => v === 0 || v === 255)).toBe(true);
+    expect(agreement(binary, ink)).toBeGreaterThan(0.98);
+    // The old global cutoff, for comparison: the shadowed half goes black
+    expect(agreement(Array.from(gray, v => v > 128 ? 255 : 0), ink)).toBeLessThan(0.7);
+  });
+});
+
+describe('filters', () => {
+  it('BW produces a clean binary page', () => {
+    const page = loadFixture('shadowed-page.png');
+    applyAdaptiveBW(page);
+    expect(agreement(toLuminance(page), ink)).toBeGreaterThan(0.98);
+  });
+
+  it('Magic Enhance produces white paper and dark text', () => {
+    const page = loadFixture('shadowed-page.png');
+    applyMagicEnhance(page);
+    const gray = toLuminance(page);
+    expect(stats(gray, i => !ink[i]).mean).toBeGreaterThan(240);
+    expect(stats(gray, i => ink[i]).mean).toBeLessThan(40);
+  });
+});
@@ -0,0 +1,20 @@
+import path from 'path';
+import { createWorker } from 'tesseract.js';
+import { describe, expect, it } from 'vitest';
+import { languageOptions, OCR_LANGUAGE } from '../services/ocrService';
+
+// Same language setup the app uses, with the model read straight from node_modules
+const LANG_PATH = path.resolve(__dirname, '../node_modules/@tesseract.js-data/eng/4.0.0_best_int');
+
+describe('on-device OCR', () => {
+  it('recognizes text with the bundled English model', async () => {
+    const worker = await createWorker(OCR_LANGUAGE, 1, { ...languageOptions(LANG_PATH), cacheMethod: 'none' });
+    try {
+      const { data } = await worker.recognize(path.resolve(__dirname, 'fixtures/ocr-text.png'));
+      expect(data.text).toContain('Open Scan receipt');
+      expect(data.text).toContain('Total amount 42.50');
+    } finally {
+      await worker.terminate();
+    }
+  }, 120_000);
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { FilterType, ScannedPage } from '../types';
+import { captureTarget, insertPages } from '../services/pageUtils';
+
+const page = (id: string): ScannedPage => ({
+  id, originalDataUrl: '', processedDataUrl: '', filter: FilterType.ORIGINAL, rotation: 0
+});
+const ids = (pages: ScannedPage[]) => pages.map(p => p.id);
+
+describe('captureTarget', () => {
+  it('starts a new document in single mode and collects a batch in batch mode', () => {
+    expect(captureTarget('SINGLE', null)).toBe('NEW_DOCUMENT');
+    expect(captureTarget('BATCH', null)).toBe('BATCH');
+  });
+
+  it('always collects captures while adding pages to an open document', () => {
+    expect(captureTarget('SINGLE', 2)).toBe('BATCH');
+    expect(captureTarget('SINGLE', 0)).toBe('BATCH');
+    expect(captureTarget('BATCH', 0)).toBe('BATCH');
+  });
+});
+
+describe('insertPages', () => {
+  const doc = [page('a'), page('b'), page('c')];
+
+  it('puts captured pages at the chosen position', () => {
+    expect(ids(insertPages(doc, 1, [page('x'), page('y')]))).toEqual(['a', 'x', 'y', 'b', 'c']);
+    expect(ids(insertPages(doc, 0, [page('x')]))).toEqual(['x', 'a', 'b', 'c']);
+    expect(ids(insertPages(doc, 3, [page('x')]))).toEqual(['a', 'b', 'c', 'x']);
+  });
+
+  it('leaves the original page list alone', () => {
+    insertPages(doc, 1, [page('x')]);
+    expect(ids(doc)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { OcrWord, PageOcr } from '../types';
+import { findSensitiveText } from '../services/redactionService';
+
+// OCR result for the given lines: one word per whitespace-separated token, 20px rows
+const ocrOf = (...lines: string[]): PageOcr => {
+  const words: OcrWord[] = lines.flatMap((line, row) => {
+    let x = 10;
+    return line.split(' ').map(text => {
+      const word = { text, x, y: 10 + row * 20, width: text.length * 8, height: 12 };
+      x += word.width + 6;
+      return word;
+    });
+  });
+  return { text: lines.join('\n'), words };
+};
+
+const kindsIn = (...lines: string[]) => findSensitiveText(ocrOf(...lines)).map(box => box.kind);
+
+describe('findSensitiveText', () => {
+  it('finds emails', () => {
+    expect(kindsIn('Contact: jane.doe+scan@example.co.uk')).toEqual(['EMAIL']);
+  });
+
+  it('finds IBANs split into groups and checks their checksum', () => {
+    expect(kindsIn('IBAN DE89 3704 0044 0532 0130 00')).toEqual(['IBAN']);
+    expect(kindsIn('IBAN GB82WEST12345698765432')).toEqual(['IBAN']);
+    expect(kindsIn('IBAN DE88 3704 0044 0532 0130 00')).not.toContain('IBAN');
+  });
+
+  it('finds card numbers that pass the Luhn check', () => {
+    expect(kindsIn('Card 4111 1111 1111 1111')).toEqual(['CARD']);
+    expect(kindsIn('Card 5500-0000-0000-0004')).toEqual(['CARD']);
+    expect(kindsIn('Card 4111 1111 1111 1112')).not.toContain('CARD');
+  });
+
+  it('finds social security numbers and labelled ID numbers', () => {
+    expect(kindsIn('SSN 078-05-1120')).toEqual(['ID']);
+    expect(kindsIn('Passport no. X1234567')).toEqual(['ID']);
+  });
+
+  it('only boxes the number after an ID label', () => {
+    const ocr = ocrOf('Passport no. X1234567');
+    const [box] = findSensitiveText(ocr);
+    const number = ocr.words[2];
+    expect(box.x).toBeLessThan(number.x);
+    expect(box.x).toBeGreaterThan(ocr.words[1].x + ocr.words[1].width);
+    expect(box.x + box.width).toBeGreaterThan(number.x + number.width);
+  });
+
+  it('finds phone numbers but not dates or short amounts', () => {
+    expect(kindsIn('Call +49 30 1234567')).toEqual(['PHONE']);
+    expect(kindsIn('Tel. (030) 123-4567')).toEqual(['PHONE']);
+    expect(kindsIn('Date 2024-05-01 Total 1,234.50')).toEqual([]);
+  });
+
+  it('splits a match that wraps onto the next line into one box per line', () => {
+    const boxes = findSensitiveText(ocrOf('Pay to DE89 3704 0044', '0532 0130 00 today'));
+    expect(boxes.map(box => box.kind)).toEqual(['IBAN', 'IBAN']);
+    expect(boxes[1].y).toBeGreaterThan(boxes[0].y + boxes[0].height / 2);
+  });
+
+  it('gives a word only the first kind that claims it', () => {
+    const boxes = findSensitiveText(ocrOf('Card 4111111111111111'));
+    expect(boxes.map(box => box.kind)).toEqual(['CARD']);
+  });
+});
@@ -5,13 +5,65 @@ export enum FilterType {
   BW = 'BW'
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A recognized word; the box is normalized (0-1) to the processed page image
+export interface OcrWord {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PageOcr {
+  text: string;
+  words: OcrWord[];
+}
+
+export type AnnotationType = 'STROKE' | 'RECT' | 'ARROW' | 'TEXT' | 'NOTE' | 'SIGNATURE';
+
+/**
+ * Vector markup on a page. Coordinates are normalized (0-1) to the cropped page before
+ * rotation, so annotations turn with the page and stay put when the crop is adjusted.
+ */
+export interface Annotation {
+  id: string;
+  type: AnnotationType;
+  color: string;
+  size: number; // Line width (STROKE, RECT, ARROW), font size (TEXT) or image width (SIGNATURE), as a fraction of the page width
+  points: Point[]; // STROKE: the path; RECT/ARROW: start and end; TEXT/NOTE: top-left anchor; SIGNATURE: center
+  text?: string; // TEXT label or NOTE comment
+  image?: string; // SIGNATURE: transparent PNG data URL, copied in so the page doesn't depend on the library
+  aspect?: number; // SIGNATURE: image height / width
+  angle?: number; // SIGNATURE: clockwise turn in degrees on the unrotated page
+}
+
+export type SensitiveKind = 'EMAIL' | 'PHONE' | 'IBAN' | 'CARD' | 'ID';
+
+// Area to black out, normalized (0-1) to processedDataUrl like OCR word boxes
+export interface RedactionBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  kind?: SensitiveKind; // Set on boxes proposed by auto-detection
+}
+
 export interface ScannedPage {
   id: string;
   originalDataUrl: string; // The raw capture
-  processedDataUrl: string; // The filtered version
-  highlightsLayer?: string; // Transparent image containing only highlights
+  processedDataUrl: string; // The filtered version, with annotations (except notes) flattened in
+  highlightsLayer?: string; // Legacy raster highlights from older versions; still drawn, no longer written
+  annotations?: Annotation[];
   filter: FilterType;
   rotation: number; // 0, 90, 180, 270
+  corners?: Point[]; // Page outline in originalDataUrl pixels (TL, TR, BR, BL), warped flat on processing
+  ocr?: PageOcr; // Recognized text of processedDataUrl; cleared when rotation or crop moves the words
 }
 
 export interface TranslationData {
@@ -20,19 +72,77 @@ export interface TranslationData {
   text: string;
 }
 
+export interface ExpenseLineItem {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount?: number;
+}
+
+// Typed fields extracted from receipts and invoices (amounts in `currency`)
+export interface ExpenseData {
+  vendor: string;
+  date: string; // ISO 8601 (YYYY-MM-DD) when it could be read
+  currency: string; // ISO 4217 code, e.g. 'USD'
+  subtotal?: number;
+  tax?: number;
+  total?: number;
+  invoiceNumber: string;
+  lineItems: ExpenseLineItem[];
+}
+
+// Saved in the local signature library; `dataUrl` is a trimmed PNG with a transparent background
+export interface Signature {
+  id: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+  createdAt: number;
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null; // null = top level
+  createdAt: number;
+}
+
 export interface DocumentData {
   id: string;
   title: string;
+  aiTitle?: boolean; // Written by AI analysis rather than the user
+  titleNeedsReview?: boolean; // AI title from before a redaction; it may quote the removed text
   createdAt: number;
   category: string; // e.g., 'Receipt', 'Invoice', 'Note'
+  folderId?: string | null;
+  tags?: string[]; // User-managed
+  suggestedTags?: string[]; // Proposed by AI analysis, shown until accepted or dismissed
   pages: ScannedPage[];
   aiSummary?: string; // OCR text or summary
   translation?: TranslationData;
+  expense?: ExpenseData;
+}
+
+// Library index entry: page images live in IndexedDB as Blobs and are only loaded when a document is opened
+export type StoredPage = Omit<ScannedPage, 'originalDataUrl' | 'processedDataUrl' | 'highlightsLayer'>;
+
+export interface StoredDocument extends Omit<DocumentData, 'pages'> {
+  pages: StoredPage[];
 }
 
 export enum AppView {
   DASHBOARD = 'DASHBOARD',
   CAMERA = 'CAMERA',
   EDITOR = 'EDITOR',
-  DETAILS = 'DETAILS'
+  DETAILS = 'DETAILS',
+  SETTINGS = 'SETTINGS'
+}
+
+// Unsaved work put aside when the library locks, and reopened after unlocking
+export interface EditorDraft {
+  view: AppView.EDITOR | AppView.CAMERA;
+  doc: DocumentData | null;
+  pageIndex: number;
+  batchPages: ScannedPage[];
+  pageInsertIndex: number | null;
 }
\ No newline at end of file
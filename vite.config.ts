@@ -1,7 +1,26 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// tesseract.js fetches `${langPath}/eng.traineddata.gz` itself, so the English model has to be
+// served under a fixed, unhashed name: from node_modules in dev, copied into the build otherwise.
+const TESSDATA_DIR = 'tessdata';
+const ENG_TRAINEDDATA = path.resolve(__dirname, 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz');
+
+const tessdata = (): Plugin => ({
+  name: 'open-scan-tessdata',
+  configureServer(server) {
+    server.middlewares.use(`/${TESSDATA_DIR}/eng.traineddata.gz`, (_req, res) => {
+      res.setHeader('Content-Type', 'application/gzip');
+      fs.createReadStream(ENG_TRAINEDDATA).pipe(res);
+    });
+  },
+  generateBundle() {
+    this.emitFile({ type: 'asset', fileName: `${TESSDATA_DIR}/eng.traineddata.gz`, source: fs.readFileSync(ENG_TRAINEDDATA) });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +28,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tessdata()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)